@@ -16,9 +16,11 @@ docs = docs.replace(/\<([a-zA-Z0-9]+)\>/g, '_&lt;$1&gt;_');
 
 const intro = readFileSync('docs/intro.md', 'utf8');
 const config = readFileSync('docs/config.md', 'utf8');
+const api = readFileSync('docs/api.md', 'utf8');
 
 writeFileSync('docs.md', `
 ${intro}
 ${docs.slice(docs.indexOf('#'))}
 ${config}
+${api}
 `);
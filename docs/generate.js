@@ -1,6 +1,6 @@
 import { cli } from '../dist/cli.js';
 
-const commands = ['link', 'install', 'uninstall', 'update', 'clear-cache'];
+const commands = ['link', 'install', 'uninstall', 'update', 'dedupe', 'merge', 'outdated', 'check', 'ls', 'why', 'download', 'serve', 'clear-cache', 'completion'];
 
 for (const command of commands) {
   console.log(`## ${command}`);
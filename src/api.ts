@@ -0,0 +1,184 @@
+/**
+ * Copyright 2022-2023 Guy Bedford
+ *
+ *    Licensed under the Apache License, Version 2.0 (the "License");
+ *    you may not use this file except in compliance with the License.
+ *    You may obtain a copy of the License at
+ *
+ *        http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *    Unless required by applicable law or agreed to in writing, software
+ *    distributed under the License is distributed on an "AS IS" BASIS,
+ *    WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *    See the License for the specific language governing permissions and
+ *    limitations under the License.
+ */
+
+import clearCacheCommand from "./clearCache";
+import installCommand from "./install";
+import linkCommand from "./link";
+import type { CustomProviderConfig } from "./providers";
+import {
+  type Diagnostic,
+  type PackageChange,
+  currentResult,
+  withReport,
+} from "./report";
+import type { IImportMapJspm } from "./types";
+import uninstallCommand from "./uninstall";
+import updateCommand from "./update";
+
+export {
+  InvalidSpecifierError,
+  JspmError,
+  NetworkError,
+  ParseError,
+  PermissionError,
+  ProviderError,
+  ResolutionConflictError,
+} from "./errors";
+export type { CustomProviderConfig, Diagnostic, IImportMapJspm, PackageChange };
+
+/**
+ * Options of the API functions, which take the same values as the flags of
+ * the corresponding CLI commands. They are combined with the project
+ * configuration in package.json and jspm.config.json in the same way, and
+ * paths are relative to the working directory.
+ */
+export interface Options {
+  // File containing the initial import map, which can be an HTML file, such
+  // as "index.html" (default: "importmap.json"):
+  map?: string;
+
+  // File to write the final import map to (default: the "map" file):
+  output?: string;
+
+  // Environment conditions, such as ["production"] or "deno,production":
+  env?: string | string[];
+
+  // Dependency resolution overrides, such as ["react=18.2.0"]:
+  resolution?: string | string[];
+
+  // Default provider, such as "jspm.io" or "nodemodules":
+  provider?: string;
+
+  // Cache mode for fetches, which is "online", "offline" or "no-cache":
+  cache?: string;
+
+  // URL to treat as the server root, which the map is rebased against:
+  root?: string;
+
+  // Module preloads and integrity attributes for HTML output:
+  preload?: boolean;
+  integrity?: boolean;
+
+  // Strategy for the modules to preload, such as "all", "none", "depth=1" or
+  // "lit,app", which also turns on preloads:
+  preloadStrategy?: string;
+
+  // File to also write the preloads to, such as "_headers" or "preloads.json":
+  preloadOutput?: string;
+
+  compact?: boolean;
+  freeze?: boolean;
+
+  // Returns the result without writing the output file:
+  dryRun?: boolean;
+
+  // Saves installed packages to the "dependencies" or "devDependencies" of
+  // package.json, or removes uninstalled ones from them:
+  save?: boolean;
+  saveDev?: boolean;
+  saveExact?: boolean;
+
+  // Mirror URLs for the built-in providers, such as
+  // "jspm.io=https://mirror.example.com/ga.jspm.io/":
+  registryMirror?: string | string[];
+  mirrorUrls?: boolean;
+
+  customProviders?: Record<string, CustomProviderConfig>;
+}
+
+/**
+ * The result of an API function that generates an import map.
+ */
+export interface Result {
+  // The final import map, including the environment it was generated for:
+  map: IImportMapJspm | null;
+
+  // The file the map was written to, relative to the working directory, or
+  // null for dry runs:
+  output: string | null;
+
+  // The mappings that were added, removed or changed in the output file:
+  changes: PackageChange[];
+
+  messages: string[];
+  warnings: Diagnostic[];
+}
+
+/**
+ * Installs packages into the import map, such as "lit", "lit@2" or
+ * "npm:lit@2.7.0", or reinstalls the existing top-level imports if no
+ * packages are given.
+ */
+export async function install(
+  packages: string[] = [],
+  options: Options = {}
+): Promise<Result> {
+  return run("install", () => installCommand(packages, options));
+}
+
+/**
+ * Uninstalls the given top-level imports from the import map, along with any
+ * dependencies that are no longer needed.
+ */
+export async function uninstall(
+  packages: string[],
+  options: Options = {}
+): Promise<Result> {
+  return run("uninstall", () => uninstallCommand(packages, options));
+}
+
+/**
+ * Updates the given packages in the import map, or all of them if none are
+ * given, to the latest versions allowed by the local package.json.
+ */
+export async function update(
+  packages: string[] = [],
+  options: Options = {}
+): Promise<Result> {
+  return run("update", () => updateCommand(packages, options));
+}
+
+/**
+ * Traces the given modules, which can be local files, HTML files with inline
+ * modules or specifiers in the import map, and links their dependencies into
+ * the import map.
+ */
+export async function link(
+  modules: string[] = [],
+  options: Options = {}
+): Promise<Result> {
+  return run("link", () => linkCommand(modules, options));
+}
+
+/**
+ * Clears the global module fetch cache.
+ */
+export async function clearCache(): Promise<void> {
+  await run("clear-cache", () => clearCacheCommand({}));
+}
+
+// Runs a command with a report that collects its output instead of printing
+// it. Within the CLI, the command reports to the report of the CLI instead:
+async function run(
+  command: string,
+  fn: () => Promise<unknown>
+): Promise<Result> {
+  const cliResult = currentResult();
+  if (cliResult) await fn();
+  const { map, output, changes, messages, warnings } =
+    cliResult ?? (await withReport(command, fn));
+  return { map, output, changes, messages, warnings };
+}
@@ -0,0 +1,342 @@
+import path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import { analyzeHtml } from "@jspm/generator";
+import c from "picocolors";
+import { Semver, SemverRange } from "sver";
+import { withConfig } from "./config";
+import { JspmError, didYouMean } from "./errors";
+import { withType } from "./logger";
+import { reportOk, reportResult } from "./report";
+import type { Flags, IImportMapJspm } from "./types";
+import {
+  exists,
+  getGenerator,
+  getInput,
+  getInputMap,
+  getInputPath,
+  startSpinner,
+  stopSpinner,
+} from "./utils";
+
+export type CheckSeverity = "error" | "warn" | "off";
+
+// The rules of the check command, with their default severities:
+export const checkRules: Record<string, CheckSeverity> = {
+  "unused-scope": "warn",
+  "duplicate-package": "warn",
+  "mixed-providers": "warn",
+  "missing-file": "error",
+  "insecure-url": "error",
+  "missing-integrity": "error",
+};
+
+const severities: CheckSeverity[] = ["error", "warn", "off"];
+
+export interface CheckProblem {
+  rule: string;
+  severity: Exclude<CheckSeverity, "off">;
+  message: string;
+
+  // The mapping that the problem was found in, if any:
+  scope?: string | null;
+  specifier?: string;
+  url?: string;
+}
+
+interface Mapping {
+  scope: string | null;
+  specifier: string;
+  url: string;
+
+  // The URL resolved against the map, or null if it can't be resolved:
+  resolved: URL | null;
+}
+
+export default async function check(flags: Flags) {
+  const log = withType("check/check");
+
+  flags = await withConfig("check", flags);
+  log(`Flags: ${JSON.stringify(flags)}`);
+
+  const rules = getRuleSeverities(flags);
+  const mapFile = getInputPath(flags);
+  const mapFileRel = path.relative(process.cwd(), mapFile);
+  const input = await getInput(flags);
+  if (!input)
+    throw new JspmError(`Nothing to check, ${mapFileRel} does not exist.`, {
+      code: "ERR_NO_INPUT_MAP",
+      hint: `Use ${c.bold("--map")} to check a different import map.`,
+    });
+
+  !flags.silent &&
+    !flags.json &&
+    startSpinner(`Checking ${c.bold(mapFileRel)}.`);
+
+  const map = await getInputMap(flags);
+  const mapUrl = pathToFileURL(mapFile);
+  const rootUrl = flags.root
+    ? pathToFileURL(`${path.resolve(process.cwd(), flags.root)}/`)
+    : null;
+  const mappings = getMappings(map, mapUrl, rootUrl);
+
+  const problems: CheckProblem[] = [];
+  const report = (problem: Omit<CheckProblem, "severity">) => {
+    const severity = rules[problem.rule];
+    if (severity !== "off") problems.push({ ...problem, severity });
+  };
+
+  for (const problem of checkUnusedScopes(map, mappings, mapUrl, rootUrl))
+    report(problem);
+  for (const problem of await checkPackages(mappings, flags)) report(problem);
+
+  const integrity = flags.integrity
+    ? getIntegrityUrls(map, input, mapFile, mapUrl)
+    : null;
+  for (const { scope, specifier, url, resolved } of mappings) {
+    if (
+      resolved?.protocol === "http:" &&
+      !["localhost", "127.0.0.1", "[::1]"].includes(resolved.hostname)
+    )
+      report({
+        rule: "insecure-url",
+        message: `"${specifier}" is mapped to ${url}, which doesn't use HTTPS.`,
+        scope,
+        specifier,
+        url,
+      });
+    if (
+      resolved?.protocol === "file:" &&
+      !(await exists(fileURLToPath(resolved)))
+    )
+      report({
+        rule: "missing-file",
+        message: `"${specifier}" is mapped to ${url}, which doesn't exist.`,
+        scope,
+        specifier,
+        url,
+      });
+    if (
+      integrity &&
+      /^https?:$/.test(resolved?.protocol) &&
+      !url.endsWith("/") &&
+      !integrity.has(resolved.href)
+    )
+      report({
+        rule: "missing-integrity",
+        message: `"${specifier}" is mapped to ${url}, which has no integrity.`,
+        scope,
+        specifier,
+        url,
+      });
+  }
+  stopSpinner();
+  log(`Found ${problems.length} problems in ${mapFileRel}`);
+
+  // Errors fail the check, so it can be used in CI:
+  if (problems.some((problem) => problem.severity === "error"))
+    process.exitCode = 1;
+
+  if (flags.json) {
+    reportResult(problems);
+  } else if (!flags.silent) {
+    if (problems.length) printProblems(mapFileRel, problems);
+    else reportOk(`No problems found in ${c.cyan(mapFileRel)}.`);
+  }
+
+  return problems;
+}
+
+// Applies the severities of the "--rules" flag to the default severities:
+function getRuleSeverities(flags: Flags): Record<string, CheckSeverity> {
+  const rules = { ...checkRules };
+  const overrides = Array.isArray(flags.rules)
+    ? flags.rules
+    : (flags.rules || "")
+        .split(",")
+        .map((r) => r.trim())
+        .filter(Boolean);
+  for (const override of overrides) {
+    const [rule, severity] = override.split("=") as [string, CheckSeverity];
+    if (!(rule in checkRules))
+      throw new JspmError(
+        `Unknown rule "${rule}". Available rules are: "${Object.keys(
+          checkRules
+        ).join('", "')}".`,
+        { hint: didYouMean(rule, Object.keys(checkRules)) }
+      );
+    if (!severities.includes(severity))
+      throw new JspmError(
+        `Invalid severity "${severity}" for rule "${rule}". Severities are: "${severities.join(
+          '", "'
+        )}".`,
+        { hint: `Set rules with ${c.bold(`--rules ${rule}=off`)}.` }
+      );
+    rules[rule] = severity;
+  }
+  return rules;
+}
+
+function getMappings(
+  map: IImportMapJspm,
+  mapUrl: URL,
+  rootUrl: URL | null
+): Mapping[] {
+  const entries: [string | null, Record<string, string>][] = [
+    [null, map.imports || {}],
+    ...Object.entries(map.scopes || {}),
+  ];
+  return entries.flatMap(([scope, scopeMap]) =>
+    Object.entries(scopeMap)
+      .filter(([, url]) => typeof url === "string")
+      .map(([specifier, url]) => ({
+        scope,
+        specifier,
+        url,
+        resolved: resolveUrl(url, mapUrl, rootUrl),
+      }))
+  );
+}
+
+/**
+ * Finds scopes that no module can be in, as neither a mapped URL nor the
+ * directory of the map itself are inside of them.
+ */
+function checkUnusedScopes(
+  map: IImportMapJspm,
+  mappings: Mapping[],
+  mapUrl: URL,
+  rootUrl: URL | null
+): Omit<CheckProblem, "severity">[] {
+  const urls = [
+    new URL("./", mapUrl).href,
+    ...mappings.map(({ resolved }) => resolved?.href).filter(Boolean),
+  ];
+  return Object.keys(map.scopes || {})
+    .filter((scope) => {
+      const scopeUrl = resolveUrl(scope, mapUrl, rootUrl)?.href;
+      return scopeUrl && !urls.some((url) => url.startsWith(scopeUrl));
+    })
+    .map((scope) => ({
+      rule: "unused-scope",
+      message: `Scope "${scope}" isn't used, as no mapped module is inside of it.`,
+      scope,
+    }));
+}
+
+/**
+ * Finds packages that are in the map at several compatible versions, which
+ * could be deduplicated, and packages that are from different providers.
+ */
+async function checkPackages(
+  mappings: Mapping[],
+  flags: Flags
+): Promise<Omit<CheckProblem, "severity">[]> {
+  // The generator is only used for parsing URLs, so it doesn't need the
+  // input map, which it would otherwise fetch the packages of:
+  const generator = await getGenerator(flags, false, false);
+  const { resolver } = generator.traceMap;
+  const versions = new Map<string, Set<string>>();
+  const providers = new Map<string, Set<string>>();
+  for (const { resolved } of mappings) {
+    const parsed = resolved && (await resolver.parseUrlPkg(resolved.href));
+    if (!parsed) continue;
+    const { pkg, source } = parsed;
+    const name =
+      pkg.registry === "npm" ? pkg.name : `${pkg.registry}:${pkg.name}`;
+    if (!versions.has(name)) versions.set(name, new Set());
+    versions.get(name).add(pkg.version);
+    if (!providers.has(source.provider))
+      providers.set(source.provider, new Set());
+    providers.get(source.provider).add(name);
+  }
+
+  const problems: Omit<CheckProblem, "severity">[] = [];
+  for (const [name, pkgVersions] of versions) {
+    const duplicates = getCompatibleVersions([...pkgVersions]);
+    if (duplicates.length < 2) continue;
+    problems.push({
+      rule: "duplicate-package",
+      message: `${name} is in the map at versions ${duplicates.join(
+        ", "
+      )}, which could be deduplicated to ${duplicates[duplicates.length - 1]}.`,
+    });
+  }
+  if (providers.size > 1)
+    problems.push({
+      rule: "mixed-providers",
+      message: `Packages are from several providers: ${[...providers]
+        .map(([provider, names]) => `${provider} (${[...names].join(", ")})`)
+        .join(", ")}.`,
+    });
+  return problems;
+}
+
+// Versions that are in the caret range of a lower version can be replaced by
+// the highest of them:
+function getCompatibleVersions(versions: string[]): string[] {
+  const valid = versions.filter((v) => Semver.isValid(v)).sort(Semver.compare);
+  return valid.filter((version) =>
+    valid.some(
+      (other) =>
+        other !== version &&
+        (new SemverRange(`^${version}`).has(other) ||
+          new SemverRange(`^${other}`).has(version))
+    )
+  );
+}
+
+/**
+ * Collects the URLs that have integrity, from the "integrity" section of the
+ * map and from the integrity attributes of preloads in HTML files.
+ */
+function getIntegrityUrls(
+  map: IImportMapJspm,
+  input: string,
+  mapFile: string,
+  mapUrl: URL
+): Set<string> {
+  const urls = new Set(
+    Object.keys((map as { integrity?: object }).integrity || {}).map(
+      (url) => new URL(url, mapUrl).href
+    )
+  );
+  if (mapFile.endsWith(".html"))
+    for (const { attrs } of analyzeHtml(input, mapUrl).preloads)
+      if (attrs.integrity && attrs.href)
+        urls.add(new URL(attrs.href.value, mapUrl).href);
+  return urls;
+}
+
+// Resolves a mapped URL, with absolute paths resolved against the root when
+// one is given:
+function resolveUrl(url: string, mapUrl: URL, rootUrl: URL | null) {
+  if (url.startsWith("/") && !url.startsWith("//")) {
+    if (!rootUrl) return null;
+    return new URL(url.slice(1), rootUrl);
+  }
+  try {
+    return new URL(url, mapUrl);
+  } catch {
+    return null;
+  }
+}
+
+function printProblems(mapFileRel: string, problems: CheckProblem[]) {
+  const errors = problems.filter((p) => p.severity === "error").length;
+  const warnings = problems.length - errors;
+
+  console.log(c.underline(mapFileRel));
+  for (const { severity, message, rule } of problems)
+    console.log(
+      `  ${
+        severity === "error" ? c.red("error") : c.yellow("warn ")
+      }  ${message}  ${c.dim(rule)}`
+    );
+
+  const summary = `${problems.length} problem${
+    problems.length === 1 ? "" : "s"
+  } (${errors} error${errors === 1 ? "" : "s"}, ${warnings} warning${
+    warnings === 1 ? "" : "s"
+  })`;
+  console.log(`\n${errors ? c.red(c.bold(summary)) : c.yellow(summary)}`);
+}
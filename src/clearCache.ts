@@ -1,8 +1,8 @@
-import c from "picocolors";
 import { clearCache as _clearCache } from "@jspm/generator";
+import { reportOk } from "./report";
 import type { Flags } from "./types";
 
 export default async function clearCache(flags: Flags) {
   _clearCache();
-  !flags.silent && console.warn(`${c.green("Ok:")} Cache cleared successfully`);
+  !flags.silent && reportOk("Cache cleared successfully");
 }
@@ -17,26 +17,40 @@
 import c from "picocolors";
 import cac from "cac";
 import { version } from "../package.json";
-import clearCache from "./clearCache";
-import install from "./install";
-import link from "./link";
-import uninstall from "./uninstall";
-import update from "./update";
-import { JspmError, wrapCommand } from "./utils";
+import { clearCache, install, link, uninstall, update } from "./api";
+import check from "./check";
+import completion from "./completion";
+import dedupe from "./dedupe";
+import download from "./download";
+import { JspmError, didYouMean } from "./errors";
+import ls from "./ls";
+import merge from "./merge";
+import outdated from "./outdated";
+import serve, { liveReloadPath } from "./serve";
+import why from "./why";
+import type { Flags } from "./types";
+import { wrapCommand } from "./utils";
 
 export const cli = cac(c.yellow("jspm"));
 
+// Options that can also be set in the project configuration have no "default"
+// here, as cac would otherwise shadow the configured values with it:
 type opt = [string, string, any];
 const mapOpt: opt = [
   "-m, --map <file>",
-  "File containing initial import map",
-  { default: "importmap.json" },
+  "File containing initial import map (default: importmap.json)",
+  {},
 ];
 const envOpt: opt = [
   "-e, --env <environments>",
   "Comma-separated environment condition overrides",
   {},
 ];
+const envMatrixOpt: opt = [
+  "--env-matrix <sets>",
+  "Semicolon-separated environment sets to output one map each for, templating {env} in the output file name",
+  {},
+];
 const resolutionOpt: opt = [
   "-r, --resolution <resolutions>",
   "Comma-separated dependency resolution overrides",
@@ -47,50 +61,132 @@ const providerOpt: opt = [
   "Default module provider",
   {},
 ];
+const registryMirrorOpt: opt = [
+  "--registry-mirror <mirrors>",
+  "Comma-separated mirror URLs for providers, such as jspm.io=https://mirror.example.com/ga.jspm.io/",
+  {},
+];
+const mirrorUrlsOpt: opt = [
+  "--mirror-urls",
+  "Keep registry mirror URLs in the output map instead of the canonical CDN URLs",
+  {},
+];
 const stdoutOpt: opt = [
   "--stdout",
   "Output the import map to stdout",
   { default: false },
 ];
-const compactOpt: opt = [
-  "--compact",
-  "Output a compact import map",
-  { default: false },
+const compactOpt: opt = ["--compact", "Output a compact import map", {}];
+const typesOpt: opt = [
+  "--types <file>",
+  "Write TypeScript paths (.json) or module declarations (.d.ts) for the import map",
+  {},
 ];
 const outputOpt: opt = [
   "-o, --output <file>",
   "File to inject the final import map into (default: --map / importmap.json)",
   {},
 ];
-const preloadOpt: opt = [
-  "--preload",
-  "Add module preloads to HTML output",
-  { default: false },
+const preloadOpt: opt = ["--preload", "Add module preloads to HTML output", {}];
+const preloadStrategyOpt: opt = [
+  "--preload-strategy <strategy>",
+  "Modules to preload: static, all, none, depth=<n> or a comma-separated list of modules (default: static)",
+  {},
+];
+const preloadOutputOpt: opt = [
+  "--preload-output <file>",
+  "Write the preloads to a _headers file, a JSON manifest (.json), or a file with an HTTP Link header",
+  {},
 ];
 const integrityOpt: opt = [
   "--integrity",
   "Add module preloads with integrity attributes to HTML output",
-  { default: false },
+  {},
 ];
 const cacheOpt: opt = [
   "--cache <mode>",
-  "Cache mode for fetches (online, offline, no-cache)",
-  { default: "online" },
+  "Cache mode for fetches (online, offline, no-cache) (default: online)",
+  {},
 ];
 const rootOpt: opt = [
   "--root <url>",
   "URL to treat as server root, i.e. rebase import maps against",
   {},
 ];
+const saveOpt: opt = [
+  "--save",
+  'Save the packages to the "dependencies" of package.json',
+  {},
+];
+const saveDevOpt: opt = [
+  "--save-dev",
+  'Save the packages to the "devDependencies" of package.json',
+  {},
+];
+const saveExactOpt: opt = [
+  "--save-exact",
+  "Save exact versions to package.json rather than caret ranges",
+  {},
+];
 const freezeOpt: opt = [
   "--freeze",
   "Freeze input map dependencies, i.e. do not modify them",
+  {},
+];
+const strategyOpt: opt = [
+  "--strategy <strategy>",
+  "How to resolve conflicting mappings (fail, prefer-first, prefer-latest, scope-isolate) (default: fail)",
+  {},
+];
+const depthOpt: opt = [
+  "--depth <n>",
+  "Maximum depth of dependencies to list (default: unlimited)",
+  {},
+];
+const dryRunOpt: opt = [
+  "--dry-run",
+  "Print the changes to the import map without writing them",
+  { default: false },
+];
+const watchOpt: opt = [
+  "-w, --watch",
+  "Watch the linked local modules and HTML files, relinking on changes",
   { default: false },
 ];
+const portOpt: opt = ["--port <port>", "Port to serve on (default: 8080)", {}];
+const liveReloadOpt: opt = [
+  "--no-live-reload",
+  "Don't reload pages when the files they were served from change",
+  {},
+];
 const silentOpt: opt = ["--silent", "Silence all output", { default: false }];
+const jsonOpt: opt = [
+  "--json",
+  "Output a single JSON result object to stdout, without spinners or colours",
+  { default: false },
+];
+const verboseOpt: opt = [
+  "--verbose",
+  "Log progress to stderr, with a summary of the time spent in each phase",
+  { default: false },
+];
+const debugOpt: opt = [
+  "--debug",
+  "Log debugging details to stderr, in addition to the verbose output",
+  { default: false },
+];
+const logFileOpt: opt = [
+  "--log-file <file>",
+  "Append every log entry, including generator traces, to a JSON lines file",
+  {},
+];
 
 cli
   .option(...silentOpt)
+  .option(...jsonOpt)
+  .option(...verboseOpt)
+  .option(...debugOpt)
+  .option(...logFileOpt)
   .version(version)
   .help(defaultHelpCb);
 
@@ -103,9 +199,19 @@ cli
     wrapCommand((args) => {
       if (!args.length) return cli.outputHelp();
       throw new JspmError(
-        `Unknown command: ${args[0]}\nRun "jspm" without any arguments to see the help file.`
+        `Unknown command: ${args[0]}\nRun "jspm" without any arguments to see the help file.`,
+        {
+          code: "ERR_UNKNOWN_COMMAND",
+          hint: didYouMean(
+            args[0],
+            cli.commands.flatMap((command) => [
+              command.name,
+              ...command.aliasNames,
+            ])
+          ),
+        }
       );
-    })
+    }, "unknown")
   );
 
 cli
@@ -114,15 +220,23 @@ cli
   .option(...mapOpt)
   .option(...outputOpt)
   .option(...envOpt)
+  .option(...envMatrixOpt)
   .option(...resolutionOpt)
   .option(...providerOpt)
+  .option(...registryMirrorOpt)
   .option(...cacheOpt)
   .option(...rootOpt)
   .option(...integrityOpt)
   .option(...preloadOpt)
+  .option(...preloadStrategyOpt)
+  .option(...preloadOutputOpt)
   .option(...compactOpt)
+  .option(...typesOpt)
   .option(...freezeOpt)
   .option(...stdoutOpt)
+  .option(...mirrorUrlsOpt)
+  .option(...dryRunOpt)
+  .option(...watchOpt)
   .example(
     (name) => `Link a remote package in importmap.json
   $ ${name} link chalk@5.2.0
@@ -138,6 +252,11 @@ cli
       name
     ) => `Link an HTML file and update its import map including preload and integrity tags
   $ ${name} link --map index.html --integrity --preload
+`
+  )
+  .example(
+    (name) => `Relink an HTML file whenever it or its local modules change
+  $ ${name} link index.html --map index.html --watch
 `
   )
   .usage(
@@ -151,9 +270,11 @@ Traces and installs all dependencies necessary to execute the given modules into
 
 In some cases there may be ambiguity. For instance, you may want to link the NPM package "app.js", but your working directory contains a local file called "app.js" as well. In these cases local files are preferred by default, and external packages must be prefixed with the "%" character (i.e. "%app.js").
 
-If no modules are given, all "imports" in the initial map are relinked.`
+If no modules are given, all "imports" in the initial map are relinked.
+
+With --watch, the local modules and HTML files that were linked are watched for changes. On every change they are relinked, and the output map is only rewritten if it has changed. Errors are reported without exiting, so they can be fixed while watching.`
   )
-  .action(wrapCommand(link));
+  .action(wrapCommand(link, "link"));
 
 cli
   .command("install [...packages]", "install packages")
@@ -161,15 +282,25 @@ cli
   .option(...mapOpt)
   .option(...outputOpt)
   .option(...envOpt)
+  .option(...envMatrixOpt)
   .option(...resolutionOpt)
   .option(...providerOpt)
+  .option(...registryMirrorOpt)
   .option(...cacheOpt)
   .option(...rootOpt)
   .option(...integrityOpt)
   .option(...preloadOpt)
+  .option(...preloadStrategyOpt)
+  .option(...preloadOutputOpt)
   .option(...compactOpt)
+  .option(...typesOpt)
+  .option(...saveOpt)
+  .option(...saveDevOpt)
+  .option(...saveExactOpt)
   .option(...freezeOpt)
   .option(...stdoutOpt)
+  .option(...mirrorUrlsOpt)
+  .option(...dryRunOpt)
   .example(
     (name) => `Install a package
   $ ${name} install lit
@@ -193,6 +324,16 @@ cli
   .example(
     (name) => `Install "alias" as an alias of the resolution react
   $ ${name} install alias=react
+`
+  )
+  .example(
+    (name) => `Install a package through a mirror of the jspm.io CDN
+  $ ${name} install lit --registry-mirror jspm.io=https://mirror.example.com/ga.jspm.io/
+`
+  )
+  .example(
+    (name) => `Install a package into separate development and production maps
+  $ ${name} install lit --env-matrix "development;production" -o importmap.{env}.json
 `
   )
   .usage(
@@ -206,25 +347,36 @@ Installs packages into an import map, along with all of the dependencies that ar
       `as \`myname=npm:lit@2.1.0\`. An optional subpath can be provided, such as \`npm:lit@2.2.0/decorators.js\`, in ` +
       `which case only the dependencies for that subpath are installed.
 
-If no packages are provided, all "imports" in the initial map are reinstalled.`
+If no packages are provided, all "imports" in the initial map are reinstalled.
+
+With \`--save\` or \`--save-dev\`, the installed packages are also saved to the "dependencies" or "devDependencies" ` +
+      `of the local "package.json", as caret ranges of the installed versions, or as exact versions with \`--save-exact\`.`
   )
 
-  .action(wrapCommand(install));
+  .action(wrapCommand(install, "install"));
 
 cli
   .command("uninstall [...packages]", "remove packages")
   .option(...mapOpt)
   .option(...outputOpt)
   .option(...envOpt)
+  .option(...envMatrixOpt)
   .option(...resolutionOpt)
   .option(...providerOpt)
+  .option(...registryMirrorOpt)
   .option(...cacheOpt)
   .option(...rootOpt)
   .option(...integrityOpt)
   .option(...preloadOpt)
+  .option(...preloadStrategyOpt)
+  .option(...preloadOutputOpt)
   .option(...compactOpt)
+  .option(...typesOpt)
+  .option(...saveOpt)
   .option(...freezeOpt)
   .option(...stdoutOpt)
+  .option(...mirrorUrlsOpt)
+  .option(...dryRunOpt)
   .example(
     (name) => `
 $ ${name} uninstall lit lodash
@@ -235,9 +387,9 @@ Uninstall "lit" and "lodash" from importmap.json.
   .usage(
     `uninstall [flags] [...packages]
 
-Uninstalls packages from an import map. The given packages must be valid package specifiers, such as \`npm:react@18.0.0\`, \`denoland:oak\` or \`lit\`, and must be present in the initial import map.`
+Uninstalls packages from an import map. The given packages must be valid package specifiers, such as \`npm:react@18.0.0\`, \`denoland:oak\` or \`lit\`, and must be present in the initial import map. Scopes that are no longer reached by the remaining imports are pruned, and the removed imports and scopes are listed. With \`--save\`, the packages are also removed from the dependencies of the local \`package.json\`.`
   )
-  .action(wrapCommand(uninstall));
+  .action(wrapCommand(uninstall, "uninstall"));
 
 cli
   .command("update [...packages]", "update packages")
@@ -245,15 +397,22 @@ cli
   .option(...mapOpt)
   .option(...outputOpt)
   .option(...envOpt)
+  .option(...envMatrixOpt)
   .option(...resolutionOpt)
   .option(...providerOpt)
+  .option(...registryMirrorOpt)
   .option(...cacheOpt)
   .option(...rootOpt)
   .option(...integrityOpt)
   .option(...preloadOpt)
+  .option(...preloadStrategyOpt)
+  .option(...preloadOutputOpt)
   .option(...compactOpt)
+  .option(...typesOpt)
   .option(...freezeOpt)
   .option(...stdoutOpt)
+  .option(...mirrorUrlsOpt)
+  .option(...dryRunOpt)
   .example(
     (name) => `
 $ ${name} update react-dom
@@ -266,7 +425,270 @@ Update the react-dom package.
 
 Updates packages in an import map to the latest versions that are compatible with the local \`package.json\`. The given packages must be valid package specifiers, such as \`npm:react@18.0.0\`, \`denoland:oak\` or \`lit\`, and must be present in the initial import map.`
   )
-  .action(wrapCommand(update));
+  .action(wrapCommand(update, "update"));
+
+cli
+  .command("dedupe", "remove redundant package versions")
+  .alias("ddp")
+  .option(...mapOpt)
+  .option(...outputOpt)
+  .option(...envOpt)
+  .option(...providerOpt)
+  .option(...registryMirrorOpt)
+  .option(...cacheOpt)
+  .option(...rootOpt)
+  .option(...integrityOpt)
+  .option(...preloadOpt)
+  .option(...preloadStrategyOpt)
+  .option(...preloadOutputOpt)
+  .option(...compactOpt)
+  .option(...typesOpt)
+  .option(...stdoutOpt)
+  .option(...mirrorUrlsOpt)
+  .option(...dryRunOpt)
+  .example(
+    (name) => `
+$ ${name} dedupe --dry-run
+
+Show which duplicate packages in importmap.json would be removed.
+`
+  )
+  .usage(
+    `dedupe [flags]
+
+Traces the initial import map and finds packages that are in it at several versions. For each of them, the smallest set of the versions in the map that satisfies the version ranges of all of its dependents is kept, preferring higher versions, and the mappings to the other versions are rewritten to the kept ones. The rewritten map is then written to the output file.
+
+Versions that can't be removed are reported along with the dependents that require them. Dependents whose ranges aren't semver ranges, such as URLs or aliases, keep the version they have.`
+  )
+  .action(wrapCommand(dedupe, "dedupe"));
+
+cli
+  .command("merge [...maps]", "merge import maps")
+  .option(...outputOpt)
+  .option(...strategyOpt)
+  .option(...envOpt)
+  .option(...registryMirrorOpt)
+  .option(...rootOpt)
+  .option(...compactOpt)
+  .option(...typesOpt)
+  .option(...stdoutOpt)
+  .option(...mirrorUrlsOpt)
+  .option(...dryRunOpt)
+  .example(
+    (name) => `
+$ ${name} merge app/importmap.json checkout/importmap.json -o importmap.json
+
+Merge the import maps of two micro-frontends into one map.
+`
+  )
+  .example(
+    (name) => `
+$ ${name} merge app/importmap.json checkout/index.html --strategy scope-isolate
+
+Merge the maps, keeping the mappings of checkout/index.html that conflict with app/importmap.json in a scope for checkout/.
+`
+  )
+  .usage(
+    `merge [flags] [...maps]
+
+Merges several import maps, which can be JSON files or HTML files containing an inline import map, into the output map. URLs are resolved against the maps that they're in, and mappings to compatible versions of a package are merged to the highest version.
+
+Mappings that the maps disagree on, such as top-level imports of incompatible versions of a package or of different modules, are conflicts, which are resolved with the "--strategy" flag:
+  fail            Fail, listing the conflicts (default)
+  prefer-first    Keep the mapping of the first map that has it
+  prefer-latest   Keep the mapping to the highest version, or of the last map
+  scope-isolate   Keep the mapping of the first map, and map the top-level imports of the other maps in scopes for their directories
+
+The maps have to have been generated for the same environment, unless the environment of the merged map is set with "--env".`
+  )
+  .action(wrapCommand(merge, "merge"));
+
+cli
+  .command("ls [...packages]", "list the dependency graph")
+  .alias("tree")
+  .option(...mapOpt)
+  .option(...envOpt)
+  .option(...providerOpt)
+  .option(...registryMirrorOpt)
+  .option(...cacheOpt)
+  .option(...rootOpt)
+  .option(...depthOpt)
+  .example(
+    (name) => `List all dependencies of the top-level imports in importmap.json
+  $ ${name} ls
+`
+  )
+  .example(
+    (name) => `List only the dependency chains that lead to lit-html
+  $ ${name} ls lit-html --depth 2
+`
+  )
+  .usage(
+    `ls [flags] [...packages]
+
+Traces the initial import map and lists its top-level "imports" as a tree, with the resolved package name, version and provider of each of them and their dependencies. Packages whose dependencies are already listed elsewhere in the tree are marked as "deduped".
+
+If packages are given, such as \`lit-html\` or \`lit-html@2.7.0\`, only the branches of the tree that lead to those packages are listed.`
+  )
+  .action(wrapCommand(ls, "ls"));
+
+cli
+  .command("why <package>", "explain why a package is in the map")
+  .option(...mapOpt)
+  .option(...envOpt)
+  .option(...providerOpt)
+  .option(...registryMirrorOpt)
+  .option(...cacheOpt)
+  .option(...rootOpt)
+  .example(
+    (name) => `Show every chain of dependencies that pulls in lit-html
+  $ ${name} why lit-html
+`
+  )
+  .usage(
+    `why [flags] <package>
+
+Traces the initial import map and prints every chain of dependencies from a top-level import to the given package, such as \`lit-html\` or \`lit-html@2.7.0\`. Each step in a chain includes the version range that its parent depends on, which shows the constraints that caused each copy of the package to be installed.`
+  )
+  .action(wrapCommand(why, "why"));
+
+cli
+  .command("outdated [...packages]", "check for outdated packages")
+  .option(...mapOpt)
+  .option(...envOpt)
+  .option(...providerOpt)
+  .option(...registryMirrorOpt)
+  .option(...cacheOpt)
+  .option(...rootOpt)
+  .example(
+    (name) => `
+$ ${name} outdated
+
+Check all packages in importmap.json for newer versions.
+`
+  )
+  .usage(
+    `outdated [flags] [...packages]
+
+Checks the packages in an import map for newer versions, without modifying the map. For every outdated package, the current version is listed along with the "wanted" version, which is the latest version allowed by the local \`package.json\` and the other packages that depend on it, and the "latest" version, which is the latest version published.
+
+The command exits with a non-zero exit code if any packages are outdated, so that it can be used as a check in CI.`
+  )
+  .action(wrapCommand(outdated, "outdated"));
+
+cli
+  .command("check", "check an import map for problems")
+  .option(...mapOpt)
+  .option(...providerOpt)
+  .option(...registryMirrorOpt)
+  .option(...rootOpt)
+  .option("--integrity", "Require integrity for every remote module in the map")
+  .option(
+    "--rules <rules>",
+    "Comma-separated rule severities (error, warn, off), such as mixed-providers=off"
+  )
+  .example(
+    (name) => `Check importmap.json, allowing packages from several providers
+  $ ${name} check --rules mixed-providers=off
+`
+  )
+  .example(
+    (
+      name
+    ) => `Check the import map of an HTML file, including its preload integrity
+  $ ${name} check --map index.html --integrity
+`
+  )
+  .usage(
+    `check [flags]
+
+Checks the initial import map, which can be a JSON file or an HTML file with an inline import map, for problems. Each problem is found by one of the following rules:
+  unused-scope       Scopes that no mapped module is inside of (default: warn).
+  duplicate-package  Packages at several versions that could be deduplicated (default: warn).
+  mixed-providers    Packages from more than one provider (default: warn).
+  missing-file       "file:" and relative URLs that point at missing files (default: error).
+  insecure-url       URLs that don't use HTTPS, other than localhost (default: error).
+  missing-integrity  Remote modules without integrity, only checked with --integrity (default: error).
+
+The severity of each rule can be changed with --rules, or with the "rules" option in the project configuration. The command exits with a non-zero exit code if any errors are found, so that it can be used as a check in CI.`
+  )
+  .action(wrapCommand(check, "check"));
+
+cli
+  .command("download", "download dependencies for offline use")
+  .alias("vendor")
+  .option(...mapOpt)
+  .option(
+    "-o, --output <file>",
+    "File to write the rewritten import map to (default: importmap.vendor.json)"
+  )
+  .option(...envOpt)
+  .option(...resolutionOpt)
+  .option(...providerOpt)
+  .option(...registryMirrorOpt)
+  .option(...cacheOpt)
+  .option(...rootOpt)
+  .option(...compactOpt)
+  .option(
+    "--vendor-dir <dir>",
+    "Directory to download the dependencies into (default: vendor)"
+  )
+  .option(
+    "--verify",
+    "Check previously downloaded dependencies against their integrity, without downloading",
+    { default: false }
+  )
+  .example(
+    (name) => `Download all dependencies of importmap.json into ./vendor
+  $ ${name} download
+`
+  )
+  .example(
+    (name) => `Check that the downloaded dependencies haven't been modified
+  $ ${name} download --verify
+`
+  )
+  .usage(
+    `download [flags]
+
+Traces the initial import map and downloads every remote module that is reachable from it into a vendor directory, in which packages keep a "name@version" layout, such as "vendor/lit@2.7.0/index.js". An import map that points at the downloaded modules is then written to the output file, along with an "integrity" section with the hashes of the downloaded modules. URLs in the output map are relative to the output file, or to --root if it is given.
+
+If the initial import map has an "integrity" section, the downloaded modules are checked against it. With --verify, nothing is downloaded, and the modules in the output map are checked against its "integrity" section instead.`
+  )
+  .action(wrapCommand(download, "download"));
+
+cli
+  .command("serve", "start a development server")
+  .option(...mapOpt)
+  .option(...envOpt)
+  .option(...resolutionOpt)
+  .option(...providerOpt)
+  .option(...registryMirrorOpt)
+  .option(...cacheOpt)
+  .option(
+    "--root <dir>",
+    "Directory to serve, which is also the server root for the import map (default: .)"
+  )
+  .option(...portOpt)
+  .option(...preloadOpt)
+  .option(...preloadStrategyOpt)
+  .option(...integrityOpt)
+  .option(...liveReloadOpt)
+  .example(
+    (name) => `Serve the project against its local node_modules folder
+  $ ${name} serve -p nodemodules --port 3000
+`
+  )
+  .usage(
+    `serve [flags]
+
+Starts a static development server for the project directory. HTML pages are served with an import map for their module scripts injected, which is linked when the page is requested, using the initial import map for the versions of any packages that are already installed.
+
+The local modules of every page are watched, and pages are relinked when they change. Unless --no-live-reload is given, served pages subscribe to the "${liveReloadPath}" event stream and reload whenever one of their files changes.
+
+The import map is not written to disk. The server works offline with the "nodemodules" provider, in which case packages are served from the local node_modules folder.`
+  )
+  .action(wrapCommand(serve, "serve"));
 
 cli
   .command("clear-cache", "clear the local package cache")
@@ -276,7 +698,38 @@ cli
 Clears the global module fetch cache, for situations where the contents of a dependency may have changed without a version bump. This can happen during local development, for instance.`
   )
   .alias("cc")
-  .action(wrapCommand(clearCache));
+  .action(wrapCommand(clearCache, "clear-cache"));
+
+cli
+  .command("completion [shell]", "generate shell completions")
+  .option(
+    "--values <kind>",
+    "Print the values that scripts complete dynamically (providers, cache, env, packages)"
+  )
+  .option(...mapOpt)
+  .example(
+    (name) => `Enable completions in bash
+  $ eval "$(${name} completion bash)"
+`
+  )
+  .example(
+    (name) => `Install completions for fish
+  $ ${name} completion fish > ~/.config/fish/completions/jspm.fish
+`
+  )
+  .usage(
+    `completion [flags] <bash|zsh|fish>
+
+Prints a completion script for the given shell, which completes the commands and options of the CLI. Provider names, cache modes and environment names are completed for the options that take them, and the packages that are in the import map are completed for "uninstall" and "update".
+
+The scripts complete these values by running "jspm completion --values <kind>", which prints them one per line.`
+  )
+  .action(
+    wrapCommand(
+      (shell: string, flags: Flags) => completion(cli, shell, flags),
+      "completion"
+    )
+  );
 
 // Taken from 'cac', as they don't export it:
 interface HelpSection {
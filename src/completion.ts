@@ -0,0 +1,394 @@
+import type { CAC, Command } from "cac";
+import c from "picocolors";
+import { withConfig } from "./config";
+import { JspmError, didYouMean } from "./errors";
+import { withType } from "./logger";
+import { reportResult } from "./report";
+import type { Flags } from "./types";
+import {
+  availableProviders,
+  excludeDefinitions,
+  getInputMap,
+  validCacheModes,
+} from "./utils";
+
+export const completionShells = ["bash", "zsh", "fish"];
+
+// Values that the completion scripts request from "jspm completion --values",
+// as they depend on the project or its import map:
+const completionValues = ["providers", "cache", "env", "packages"] as const;
+type CompletionValues = (typeof completionValues)[number];
+
+// Options whose values are completed dynamically, by their long name. Other
+// options with values are completed as file names:
+const optionValues: Record<string, CompletionValues> = {
+  provider: "providers",
+  cache: "cache",
+  env: "env",
+};
+
+// Commands whose arguments are the packages in the import map, or a shell:
+const packageCommands = ["uninstall", "update"];
+const shellCommands = ["completion"];
+
+interface CompletionOption {
+  short?: string;
+  long: string;
+  description: string;
+  values?: CompletionValues | "files";
+}
+
+interface CompletionCommand {
+  names: string[];
+  description: string;
+  options: CompletionOption[];
+  args: "packages" | "shells" | "files" | null;
+}
+
+export default async function completion(
+  cli: CAC,
+  shell: string | undefined,
+  flags: Flags
+) {
+  const log = withType("completion/completion");
+
+  if (flags.values) {
+    const values = await getCompletionValues(flags.values, flags);
+    log(`Completion values for ${flags.values}: ${values.join(", ")}`);
+    if (flags.json) reportResult(values);
+    else if (values.length) console.log(values.join("\n"));
+    return values;
+  }
+
+  if (!shell || !completionShells.includes(shell))
+    throw new JspmError(
+      shell
+        ? `Unsupported shell "${shell}". Available shells are: "${completionShells.join(
+            '", "'
+          )}".`
+        : `No shell was given to generate a completion script for.`,
+      {
+        code: "ERR_UNKNOWN_SHELL",
+        hint: shell
+          ? didYouMean(shell, completionShells)
+          : `Run ${c.bold("jspm completion bash")}, ${c.bold(
+              "jspm completion zsh"
+            )} or ${c.bold("jspm completion fish")}.`,
+      }
+    );
+
+  const script = getCompletionScript(cli, shell);
+  if (flags.json) reportResult({ shell, script });
+  else console.log(script);
+  return script;
+}
+
+/**
+ * Returns the completion script for the given shell, which completes the
+ * commands and options that are registered on the CLI.
+ */
+export function getCompletionScript(cli: CAC, shell: string): string {
+  const commands = cli.commands
+    .filter((command) => command.name)
+    .map(toCompletionCommand);
+  const globalOptions = cli.globalCommand.options.map(toCompletionOption);
+  if (shell === "bash") return bashScript(commands, globalOptions);
+  if (shell === "zsh") return zshScript(commands, globalOptions);
+  return fishScript(commands, globalOptions);
+}
+
+async function getCompletionValues(
+  kind: string,
+  flags: Flags
+): Promise<string[]> {
+  if (kind === "cache") return validCacheModes;
+  if (kind === "env") return Object.keys(excludeDefinitions);
+  if (kind === "providers" || kind === "packages") {
+    flags = await withConfig("completion", flags);
+    if (kind === "providers")
+      return [
+        ...availableProviders,
+        ...Object.keys(flags.customProviders || {}),
+      ];
+    // Completions shouldn't fail for projects without a valid import map:
+    try {
+      return Object.keys((await getInputMap(flags)).imports || {});
+    } catch {
+      return [];
+    }
+  }
+  throw new JspmError(
+    `Unknown completion values "${kind}". Available values are: "${completionValues.join(
+      '", "'
+    )}".`,
+    { hint: didYouMean(kind, [...completionValues]) }
+  );
+}
+
+function toCompletionCommand(command: Command): CompletionCommand {
+  const takesArgs = command.args.length > 0;
+  return {
+    names: [command.name, ...command.aliasNames],
+    description: command.description,
+    // The values for the scripts themselves aren't completed:
+    options: command.options
+      .map(toCompletionOption)
+      .filter((option) => option.long !== "values"),
+    args: packageCommands.includes(command.name)
+      ? "packages"
+      : shellCommands.includes(command.name)
+      ? "shells"
+      : takesArgs
+      ? "files"
+      : null,
+  };
+}
+
+function toCompletionOption({
+  rawName,
+  description,
+}: Command["options"][number]): CompletionOption {
+  // Raw names look like "-p, --provider <provider>":
+  const names = rawName.split(",").map((name) => name.trim().split(" ")[0]);
+  const long = names.find((name) => name.startsWith("--")).slice(2);
+  const short = names.find((name) => /^-[^-]/.test(name))?.slice(1);
+  return {
+    short,
+    long,
+    description,
+    values: /[<[]/.test(rawName) ? optionValues[long] ?? "files" : undefined,
+  };
+}
+
+const valuesCommand = (kind: CompletionValues) =>
+  `jspm completion --values ${kind} 2>/dev/null`;
+
+function bashScript(
+  commands: CompletionCommand[],
+  globalOptions: CompletionOption[]
+) {
+  const flagNames = (options: CompletionOption[]) =>
+    options.flatMap(({ short, long }) =>
+      short ? [`-${short}`, `--${long}`] : [`--${long}`]
+    );
+  const allOptions = [
+    ...globalOptions,
+    ...commands.flatMap((cmd) => cmd.options),
+  ];
+  const valueCases = Object.entries(optionValues).map(([long, kind]) => {
+    const option = allOptions.find((option) => option.long === long);
+    return `    ${flagNames([option]).join("|")})
+      COMPREPLY=($(compgen -W "$(${valuesCommand(kind)})" -- "$cur"))
+      return ;;`;
+  });
+  const fileOptions = new Set(
+    flagNames(allOptions.filter((option) => option.values === "files"))
+  );
+
+  return `# jspm completion for bash, generated by "jspm completion bash".
+# Add it to ~/.bashrc with: eval "$(jspm completion bash)"
+_jspm_completion() {
+  local cur prev cmd opts i
+  cur="\${COMP_WORDS[COMP_CWORD]}"
+  prev="\${COMP_WORDS[COMP_CWORD-1]}"
+  cmd=""
+  for ((i = 1; i < COMP_CWORD; i++)); do
+    case "\${COMP_WORDS[i]}" in
+      ${commands.flatMap((cmd) => cmd.names).join("|")})
+        cmd="\${COMP_WORDS[i]}"
+        break ;;
+    esac
+  done
+
+  case "$prev" in
+${valueCases.join("\n")}
+    ${[...fileOptions].join("|")})
+      COMPREPLY=($(compgen -f -- "$cur"))
+      return ;;
+  esac
+
+  if [[ "$cur" == -* ]]; then
+    case "$cmd" in
+${commands
+  .map(
+    (cmd) => `      ${cmd.names.join("|")})
+        opts="${flagNames([...cmd.options, ...globalOptions]).join(" ")}" ;;`
+  )
+  .join("\n")}
+      *)
+        opts="${flagNames(globalOptions).join(" ")}" ;;
+    esac
+    COMPREPLY=($(compgen -W "$opts" -- "$cur"))
+    return
+  fi
+
+  case "$cmd" in
+    "")
+      COMPREPLY=($(compgen -W "${commands
+        .map((cmd) => cmd.names[0])
+        .join(" ")}" -- "$cur")) ;;
+${commands
+  .filter((cmd) => cmd.args === "packages" || cmd.args === "shells")
+  .map(
+    (cmd) => `    ${cmd.names.join("|")})
+      COMPREPLY=($(compgen -W "${
+        cmd.args === "packages"
+          ? `$(${valuesCommand("packages")})`
+          : completionShells.join(" ")
+      }" -- "$cur")) ;;`
+  )
+  .join("\n")}
+    *)
+      COMPREPLY=($(compgen -f -- "$cur")) ;;
+  esac
+}
+complete -o default -F _jspm_completion jspm
+`;
+}
+
+function zshScript(
+  commands: CompletionCommand[],
+  globalOptions: CompletionOption[]
+) {
+  const quote = (text: string) => `'${text.replace(/'/g, `'\\''`)}'`;
+  const optionSpec = ({
+    short,
+    long,
+    description,
+    values,
+  }: CompletionOption) => {
+    const names = short
+      ? `'(-${short} --${long})'{-${short},--${long}}`
+      : `--${long}`;
+    const action = !values
+      ? ""
+      : values === "files"
+      ? `:${long}:_files`
+      : `:${long}:_jspm_values ${values}`;
+    // Brackets would end the description in option specs:
+    return `${names}${quote(
+      `[${description.replace(/[[\]]/g, "\\$&")}]${action}`
+    )}`;
+  };
+  const argumentsSpecs = (options: CompletionOption[]) =>
+    options.map((option) => `    ${optionSpec(option)} \\`).join("\n");
+
+  return `#compdef jspm
+# jspm completion for zsh, generated by "jspm completion zsh".
+# Add it to ~/.zshrc with: eval "$(jspm completion zsh)"
+_jspm_values() {
+  local -a values
+  values=(\${(f)"$(jspm completion --values $1 2>/dev/null)"})
+  compadd -a values
+}
+
+_jspm() {
+  local curcontext="$curcontext" state line
+  local -a commands
+  commands=(
+${commands
+  .flatMap((cmd) =>
+    cmd.names.map((name) => `    ${quote(`${name}:${cmd.description}`)}`)
+  )
+  .join("\n")}
+  )
+
+  _arguments -C \\
+${argumentsSpecs(globalOptions)}
+    '1:command:->command' \\
+    '*::arg:->args'
+
+  case $state in
+    command)
+      _describe -t commands 'jspm command' commands ;;
+    args)
+      case $line[1] in
+${commands
+  .map(
+    (cmd) => `        ${cmd.names.join("|")})
+          _arguments \\
+${argumentsSpecs([...cmd.options, ...globalOptions]).replace(
+  /^ {4}/gm,
+  "            "
+)}
+            ${
+              cmd.args === "packages"
+                ? `'*:package:_jspm_values packages'`
+                : cmd.args === "shells"
+                ? `'1:shell:(${completionShells.join(" ")})'`
+                : cmd.args === "files"
+                ? `'*:file:_files'`
+                : ""
+            } ;;`
+  )
+  .join("\n")}
+      esac ;;
+  esac
+}
+
+if [[ "$funcstack[1]" = "_jspm" ]]; then
+  _jspm "$@"
+else
+  compdef _jspm jspm
+fi
+`;
+}
+
+function fishScript(
+  commands: CompletionCommand[],
+  globalOptions: CompletionOption[]
+) {
+  const quote = (text: string) => `'${text.replace(/[\\']/g, "\\$&")}'`;
+  const optionLine = (
+    { short, long, description, values }: CompletionOption,
+    condition?: string
+  ) =>
+    [
+      "complete -c jspm",
+      condition && `-n ${quote(condition)}`,
+      short && `-s ${short}`,
+      `-l ${long}`,
+      values === "files" && "-r -F",
+      values &&
+        values !== "files" &&
+        `-x -a ${quote(`(${valuesCommand(values)})`)}`,
+      `-d ${quote(description)}`,
+    ]
+      .filter(Boolean)
+      .join(" ");
+
+  const lines = [
+    `# jspm completion for fish, generated by "jspm completion fish".`,
+    `# Save it with: jspm completion fish > ~/.config/fish/completions/jspm.fish`,
+    "complete -c jspm -f",
+    ...globalOptions.map((option) => optionLine(option)),
+  ];
+  for (const cmd of commands) {
+    const seen = `__fish_seen_subcommand_from ${cmd.names.join(" ")}`;
+    lines.push(
+      "",
+      ...cmd.names.map(
+        (name) =>
+          `complete -c jspm -n __fish_use_subcommand -a ${name} -d ${quote(
+            cmd.description
+          )}`
+      ),
+      ...cmd.options.map((option) => optionLine(option, seen))
+    );
+    if (cmd.args === "packages")
+      lines.push(
+        `complete -c jspm -n ${quote(seen)} -a ${quote(
+          `(${valuesCommand("packages")})`
+        )}`
+      );
+    else if (cmd.args === "shells")
+      lines.push(
+        `complete -c jspm -n ${quote(seen)} -a ${quote(
+          completionShells.join(" ")
+        )}`
+      );
+    else if (cmd.args === "files")
+      lines.push(`complete -c jspm -n ${quote(seen)} -F`);
+  }
+  return `${lines.join("\n")}\n`;
+}
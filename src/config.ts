@@ -0,0 +1,155 @@
+import fs from "fs/promises";
+import path from "path";
+import c from "picocolors";
+import { JspmError, ParseError, didYouMean } from "./errors";
+import { withType } from "./logger";
+import type { Config, ConfigOptions, Flags } from "./types";
+
+// Standalone project configuration file, which takes precedence over the
+// "jspm" field of the local package.json:
+const configFile = "jspm.config.json";
+
+// Flags that can be set in project configuration. Output-only switches like
+// "--stdout" and "--silent" are deliberately left out, as they are specific
+// to a particular invocation:
+export const configurableFlags = [
+  "map",
+  "output",
+  "env",
+  "resolution",
+  "provider",
+  "cache",
+  "root",
+  "preload",
+  "integrity",
+  "compact",
+  "freeze",
+  "customProviders",
+  "registryMirror",
+  "mirrorUrls",
+  "rules",
+  "strategy",
+  "types",
+  "preloadStrategy",
+  "preloadOutput",
+] as const;
+
+// Flags that can be configured as objects of names to values:
+export const mappingFlags = ["resolution", "registryMirror", "rules"] as const;
+
+interface ConfigSource {
+  name: string;
+  config: Config;
+}
+
+/**
+ * Merges the project configuration for the given command under the flags
+ * that were provided on the command line. Options are applied in order of
+ * increasing precedence:
+ *   1. the "jspm" field of package.json
+ *   2. the "commands" section of the "jspm" field of package.json
+ *   3. jspm.config.json
+ *   4. the "commands" section of jspm.config.json
+ *   5. command line flags
+ */
+export async function withConfig(
+  command: string,
+  flags: Flags
+): Promise<Flags> {
+  const log = withType("config/withConfig");
+
+  const resolved: Flags = {};
+  const origins: Record<string, string> = {};
+  const apply = (options: ConfigOptions, origin: string) => {
+    for (const [key, value] of Object.entries(options)) {
+      if (key === "commands") continue;
+      if (!(configurableFlags as readonly string[]).includes(key))
+        throw new JspmError(
+          `Unknown option "${key}" in ${c.cyan(
+            origin
+          )}. Configurable options are: "${configurableFlags.join('", "')}".`,
+          { hint: didYouMean(key, configurableFlags) }
+        );
+      resolved[key] = (mappingFlags as readonly string[]).includes(key)
+        ? toMappingFlag(value)
+        : value;
+      origins[key] = origin;
+    }
+  };
+
+  for (const { name, config } of await getConfigSources()) {
+    apply(config, name);
+    const commandConfig = config.commands?.[command];
+    if (commandConfig) {
+      if (!isObject(commandConfig))
+        throw new JspmError(
+          `Expected "commands.${command}" in ${c.cyan(name)} to be an object.`
+        );
+      apply(commandConfig, `${name} (commands.${command})`);
+    }
+  }
+
+  for (const [key, value] of Object.entries(flags)) {
+    if (key === "--" || typeof value === "undefined") continue;
+    resolved[key] = value;
+    origins[key] = "command line";
+  }
+
+  for (const [key, origin] of Object.entries(origins))
+    log(`Option ${key}=${JSON.stringify(resolved[key])} from ${origin}`);
+
+  return resolved;
+}
+
+async function getConfigSources(): Promise<ConfigSource[]> {
+  const sources: ConfigSource[] = [];
+
+  const pjson = await readJson("package.json");
+  if (pjson?.jspm !== undefined) {
+    if (!isObject(pjson.jspm))
+      throw new JspmError(
+        `Expected the "jspm" field in ${c.cyan(
+          "package.json"
+        )} to be an object.`
+      );
+    sources.push({ name: "package.json", config: pjson.jspm });
+  }
+
+  const config = await readJson(configFile);
+  if (config !== undefined) {
+    if (!isObject(config))
+      throw new JspmError(`Expected ${c.cyan(configFile)} to be an object.`);
+    sources.push({ name: configFile, config });
+  }
+
+  return sources;
+}
+
+async function readJson(file: string): Promise<any> {
+  let source: string;
+  try {
+    source = await fs.readFile(path.resolve(process.cwd(), file), "utf-8");
+  } catch {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(source);
+  } catch {
+    throw new ParseError(`Failed to parse ${c.cyan(file)}, invalid JSON.`, {
+      hint: `Fix the syntax of ${file}.`,
+    });
+  }
+}
+
+// Resolutions and registry mirrors can be configured as objects, such as
+// package names to targets, which we convert to the "name=target" form used
+// by their flags:
+function toMappingFlag(mapping: unknown): string | string[] {
+  if (!isObject(mapping)) return mapping as string | string[];
+  return Object.entries(mapping).map(([name, target]) => `${name}=${target}`);
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,309 @@
+import path from "path";
+import c from "picocolors";
+import { Semver } from "sver";
+import type { Generator } from "@jspm/generator";
+import { withConfig } from "./config";
+import { parseRange } from "./dependencies";
+import {
+  type Graph,
+  type GraphNode,
+  getDependencyRange,
+  nodeLabel,
+  traceGraph,
+} from "./graph";
+import { span, withType } from "./logger";
+import { reportNote, reportOk, reportResult, reportWarning } from "./report";
+import type { Flags, IImportMapJspm } from "./types";
+import {
+  getEnv,
+  getGenerator,
+  getInput,
+  getInputPath,
+  startSpinner,
+  stopSpinner,
+  writeOutput,
+} from "./utils";
+
+export interface DedupeEntry {
+  name: string;
+  registry: string;
+
+  // Versions of the package before deduplicating, and the minimal set of
+  // versions that satisfies all of its dependents:
+  versions: string[];
+  kept: string[];
+  removed: string[];
+
+  // Why the versions other than the first one had to be kept:
+  reasons: string[];
+}
+
+interface Dependent {
+  // Package base URL of the dependent, or null for the top-level imports:
+  parentUrl: string | null;
+  parentLabel: string;
+  range?: string;
+  node: GraphNode;
+
+  // The copy of the package that the dependent uses after deduplicating:
+  target?: GraphNode;
+}
+
+export default async function dedupe(flags: Flags) {
+  const log = withType("dedupe/dedupe");
+
+  flags = await withConfig("dedupe", flags);
+  log(`Flags: ${JSON.stringify(flags)}`);
+
+  const input = await getInput(flags);
+  const mapFileRel = path.relative(process.cwd(), getInputPath(flags));
+  if (!input) {
+    !flags.silent &&
+      reportWarning(
+        "WARN_NOTHING_TO_DEDUPE",
+        `Nothing to deduplicate, ${mapFileRel} does not exist or is empty.`
+      );
+    return [];
+  }
+
+  const env = await getEnv(flags);
+  const generator = await getGenerator(flags);
+  const pins = await span("input parse", () => generator.addMappings(input));
+
+  !flags.silent &&
+    startSpinner(`Deduplicating ${c.bold(mapFileRel)}. (${env.join(", ")})`);
+  const graph = await traceGraph(generator, pins);
+
+  // Copies of the same package, by registry and name:
+  const copies = new Map<string, GraphNode[]>();
+  for (const node of graph.nodes.values()) {
+    if (!node.registry || !node.version) continue;
+    const key = `${node.registry}:${node.name}`;
+    if (!copies.has(key)) copies.set(key, []);
+    copies.get(key).push(node);
+  }
+
+  const entries: DedupeEntry[] = [];
+  const rewrites = new Map<GraphNode, Dependent[]>();
+  const removed: GraphNode[] = [];
+  for (const nodes of copies.values()) {
+    if (nodes.length < 2) continue;
+    nodes.sort((a, b) => compareVersions(b, a));
+    const dependents = await getDependents(generator, graph, nodes);
+    const kept = selectVersions(nodes, dependents);
+    log(
+      `${nodes[0].name}: ${nodes
+        .map((node) => node.version)
+        .join(", ")} -> ${kept.map((node) => node.version).join(", ")}`
+    );
+
+    const reasons: string[] = [];
+    for (const node of kept.slice(1)) {
+      const requiredBy = dependents.filter(
+        (dependent) => dependent.target === node
+      );
+      reasons.push(
+        `${nodeLabel(node)} is kept, as ${requiredBy
+          .map(
+            ({ parentLabel, range }) =>
+              `${parentLabel} requires ${range ?? "this exact copy"}`
+          )
+          .join(", and ")}.`
+      );
+    }
+    removed.push(...nodes.filter((node) => !kept.includes(node)));
+
+    // Mappings to a copy are rewritten with all of its dependents, as the
+    // ones that keep it may share a scope with the ones that don't:
+    for (const node of nodes) {
+      const nodeDependents = dependents.filter((d) => d.node === node);
+      if (nodeDependents.some((d) => d.target !== node))
+        rewrites.set(node, nodeDependents);
+    }
+
+    entries.push({
+      name: nodes[0].name,
+      registry: nodes[0].registry,
+      versions: nodes.map((node) => node.version),
+      kept: kept.map((node) => node.version),
+      removed: nodes
+        .filter((node) => !kept.includes(node))
+        .map((node) => node.version),
+      reasons,
+    });
+  }
+
+  stopSpinner();
+  if (flags.json) {
+    reportResult(entries);
+  } else if (!flags.silent) {
+    if (!entries.length)
+      reportOk(`No duplicate packages found in ${c.cyan(mapFileRel)}.`);
+    for (const entry of entries) {
+      const label =
+        entry.registry === "npm" || entry.registry === "node_modules"
+          ? entry.name
+          : `${entry.registry}:${entry.name}`;
+      if (entry.removed.length)
+        reportOk(
+          `Deduplicated ${c.bold(label)} from ${entry.versions.join(
+            ", "
+          )} to ${entry.kept.join(", ")}.`
+        );
+      for (const reason of entry.reasons) reportNote(reason);
+    }
+  }
+
+  // Relinking would resolve the dependencies of the packages again, undoing
+  // the rewrites, so the rewritten map is written as it is:
+  if (rewrites.size) {
+    const deduped = await getGenerator(flags, true, false);
+    deduped.map.extend(
+      rewriteMap(generator.getMap(), generator.mapUrl, rewrites, removed)
+    );
+    await writeOutput(deduped, null, env, flags, flags.silent);
+  }
+
+  return entries;
+}
+
+/**
+ * Finds the packages and top-level imports that depend on the given copies of
+ * a package, along with the version ranges that they declare for it.
+ */
+async function getDependents(
+  generator: Generator,
+  graph: Graph,
+  nodes: GraphNode[]
+): Promise<Dependent[]> {
+  const dependents: Dependent[] = [];
+  const name = nodes[0].name;
+  for (const { node } of graph.roots)
+    if (nodes.includes(node))
+      dependents.push({
+        parentUrl: null,
+        parentLabel: "the local package",
+        range: await getDependencyRange(
+          generator,
+          generator.baseUrl.href,
+          name
+        ),
+        node,
+      });
+  for (const parent of graph.nodes.values())
+    for (const { node } of parent.deps)
+      if (nodes.includes(node))
+        dependents.push({
+          parentUrl: parent.url,
+          parentLabel: nodeLabel(parent),
+          range: await getDependencyRange(generator, parent.url, name),
+          node,
+        });
+  return dependents;
+}
+
+/**
+ * Picks the minimal set of copies that satisfies the ranges of every
+ * dependent, preferring higher versions, and assigns each dependent to the
+ * highest copy in the set that satisfies its range. Dependents without a
+ * range accept any version, and dependents with ranges that can't be parsed,
+ * such as URLs or aliases, keep their current copy.
+ */
+function selectVersions(
+  nodes: GraphNode[],
+  dependents: Dependent[]
+): GraphNode[] {
+  const byVersion = [...nodes].sort((a, b) => compareVersions(b, a));
+  const accepts = (dependent: Dependent, node: GraphNode) => {
+    if (node === dependent.node) return true;
+    if (dependent.range === undefined) return true;
+    return !!parseRange(dependent.range)?.some((range) =>
+      range.has(node.version)
+    );
+  };
+
+  const kept: GraphNode[] = [];
+  let remaining = dependents;
+  while (remaining.length) {
+    let best: GraphNode;
+    let bestCount = 0;
+    for (const node of byVersion) {
+      const count = remaining.filter((d) => accepts(d, node)).length;
+      if (count > bestCount) {
+        best = node;
+        bestCount = count;
+      }
+    }
+    kept.push(best);
+    remaining = remaining.filter((d) => !accepts(d, best));
+  }
+  if (!kept.length) kept.push(byVersion[0]);
+
+  for (const dependent of dependents)
+    dependent.target = kept
+      .filter((node) => accepts(dependent, node))
+      .sort((a, b) => compareVersions(b, a))[0];
+  return kept.sort((a, b) => compareVersions(b, a));
+}
+
+function compareVersions(a: GraphNode, b: GraphNode) {
+  return Semver.compare(a.version, b.version);
+}
+
+/**
+ * Rewrites the mappings to removed copies of packages so that they point at
+ * the copies their dependents were assigned to, keeping the subpaths, and
+ * drops the scopes of the removed copies. Mappings of scopes whose dependents
+ * were assigned different copies are kept, and each dependent gets a scope of
+ * its own instead. URLs are returned as absolute URLs.
+ */
+export function rewriteMap(
+  map: IImportMapJspm,
+  mapUrl: URL,
+  rewrites: Map<GraphNode, Dependent[]>,
+  removed: GraphNode[]
+): IImportMapJspm {
+  const dependentScopes: Record<string, Record<string, string>> = {};
+  const rewrite = (scopeUrl: string | null, specifier: string, url: string) => {
+    const resolved = new URL(url, mapUrl).href;
+    for (const [node, dependents] of rewrites) {
+      if (!resolved.startsWith(node.url)) continue;
+      const subpath = resolved.slice(node.url.length);
+      const inScope = dependents.filter(({ parentUrl }) =>
+        scopeUrl ? parentUrl?.startsWith(scopeUrl) : parentUrl === null
+      );
+      const targets = new Set(inScope.map(({ target }) => target));
+      if (targets.size === 1) return [...targets][0].url + subpath;
+      for (const { parentUrl, target } of inScope) {
+        dependentScopes[parentUrl] ??= {};
+        dependentScopes[parentUrl][specifier] = target.url + subpath;
+      }
+      return resolved;
+    }
+    return resolved;
+  };
+
+  const imports = Object.fromEntries(
+    Object.entries(map.imports || {}).map(([specifier, url]) => [
+      specifier,
+      rewrite(null, specifier, url),
+    ])
+  );
+
+  // Scoped mappings that now match the imports are dropped along with empty
+  // scopes, as flattening the map would otherwise move the mappings of other
+  // scopes into their place:
+  const scopes: Record<string, Record<string, string>> = {};
+  for (const [scope, mappings] of Object.entries(map.scopes || {})) {
+    const scopeUrl = new URL(scope, mapUrl).href;
+    if (removed.some(({ url }) => scopeUrl.startsWith(url))) continue;
+    const rewritten = Object.entries(mappings)
+      .map(([specifier, url]) => [specifier, rewrite(scopeUrl, specifier, url)])
+      .filter(([specifier, url]) => imports[specifier] !== url);
+    if (rewritten.length) scopes[scopeUrl] = Object.fromEntries(rewritten);
+  }
+  for (const [scopeUrl, mappings] of Object.entries(dependentScopes))
+    if (!removed.some(({ url }) => scopeUrl.startsWith(url)))
+      scopes[scopeUrl] = { ...scopes[scopeUrl], ...mappings };
+  return { ...map, imports, scopes };
+}
@@ -0,0 +1,74 @@
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import c from "picocolors";
+import { JspmError, ParseError } from "./errors";
+import { parseJsonc, setJsoncProperties } from "./jsonc";
+import type { IImportMapJspm } from "./types";
+
+// Deno configuration files, which either contain the import map of a project
+// in their "imports" and "scopes" fields, or point to an import map file with
+// their "importMap" field:
+export const denoConfigFiles = ["deno.json", "deno.jsonc"];
+
+// Environment of import maps for Deno configurations, which don't record one:
+export const denoEnv = ["deno", "development", "module"];
+
+export function isDenoConfig(file: string): boolean {
+  return denoConfigFiles.includes(path.basename(file));
+}
+
+/**
+ * Returns the import map file that a Deno configuration points to with its
+ * "importMap" field. Configurations without one contain the import map
+ * themselves, and are returned as they are, as are other files.
+ */
+export function followDenoConfig(file: string): string {
+  if (!isDenoConfig(file) || !existsSync(file)) return file;
+  const { importMap } = readDenoConfig(readFileSync(file, "utf-8"), file);
+  if (typeof importMap !== "string") return file;
+  if (importMap.startsWith("file:")) return fileURLToPath(importMap);
+  if (/^[a-z][a-z0-9+.-]*:/i.test(importMap))
+    throw new JspmError(
+      `The import map of ${file} is at ${importMap}, which isn't a local file.`,
+      {
+        code: "ERR_REMOTE_IMPORT_MAP",
+        hint: `Use a local import map with ${c.bold("--map")}.`,
+      }
+    );
+  return path.resolve(path.dirname(file), importMap);
+}
+
+// Reads the import map in a Deno configuration:
+export function readDenoMap(source: string, file: string): IImportMapJspm {
+  const { imports, scopes } = readDenoConfig(source, file);
+  return { ...(imports && { imports }), ...(scopes && { scopes }) };
+}
+
+/**
+ * Writes an import map into a Deno configuration, keeping its comments and
+ * other fields. Empty scopes are removed rather than written.
+ */
+export function writeDenoMap(
+  source: string | undefined,
+  map: IImportMapJspm,
+  compact = false
+): string {
+  const scopes = Object.keys(map.scopes || {}).length ? map.scopes : undefined;
+  return setJsoncProperties(
+    source?.trim() ? source : "{}\n",
+    { imports: map.imports || {}, scopes },
+    compact
+  );
+}
+
+function readDenoConfig(source: string, file: string) {
+  try {
+    return parseJsonc(source) || {};
+  } catch (e) {
+    throw new ParseError(`Deno configuration ${file} isn't valid JSONC.`, {
+      cause: e,
+      hint: `Fix the syntax of ${file}.`,
+    });
+  }
+}
@@ -0,0 +1,217 @@
+import fs from "fs/promises";
+import path from "path";
+import type { Generator } from "@jspm/generator";
+import c from "picocolors";
+import { SemverRange } from "sver";
+import convertRange from "sver/convert-range.js";
+import { ParseError, PermissionError } from "./errors";
+import { parseJsonc, setJsoncProperties } from "./jsonc";
+import { withType } from "./logger";
+import { reportNote, reportOk, reportWarning } from "./report";
+import type { Flags, IImportMapJspm } from "./types";
+
+// Fields of package.json that installed packages are saved to:
+const dependencyFields = ["dependencies", "devDependencies"];
+
+/**
+ * Saves the packages installed under the given specifiers to the local
+ * package.json, as "dependencies", or as "devDependencies" with --save-dev.
+ * Versions are saved as caret ranges, or exactly with --save-exact. Packages
+ * that are installed under an alias are saved as npm aliases, such as
+ * "react16": "npm:react@^16.14.0".
+ */
+export async function saveDependencies(
+  generator: Generator,
+  map: IImportMapJspm,
+  specifiers: string[],
+  flags: Flags,
+  silent = false
+) {
+  const log = withType("dependencies/saveDependencies");
+  const { resolver } = generator.traceMap;
+  const field = flags.saveDev ? "devDependencies" : "dependencies";
+
+  const saved: Record<string, string> = {};
+  for (const specifier of specifiers) {
+    const url = map.imports?.[specifier];
+    const parsed = url
+      ? await resolver.parseUrlPkg(new URL(url, generator.mapUrl).href)
+      : null;
+    const { pkg, source } = parsed || {};
+    if (pkg?.registry !== "npm" && pkg?.registry !== "node_modules") {
+      !silent &&
+        reportWarning(
+          "WARN_NOT_SAVED",
+          `${c.bold(
+            specifier
+          )} isn't an npm package, so it wasn't saved to ${c.cyan(
+            "package.json"
+          )}.`
+        );
+      continue;
+    }
+
+    // The "nodemodules" provider uses the encoded package URL as the package
+    // version, so the real version has to come from the package.json:
+    const version =
+      pkg.registry === "node_modules"
+        ? (
+            await resolver.getPackageConfig(
+              await resolver.pkgToUrl(pkg, source)
+            )
+          )?.version
+        : pkg.version;
+    if (!version) continue;
+
+    const range = flags.saveExact ? version : `^${version}`;
+    const name = getPackageName(specifier);
+    saved[name] = name === pkg.name ? range : `npm:${pkg.name}@${range}`;
+  }
+  log(`Saving ${field}: ${JSON.stringify(saved)}`);
+  if (!Object.keys(saved).length) return;
+
+  await updatePackageJson(
+    (pjson) => {
+      // Packages move out of the other dependency fields, as with npm:
+      const fields = { [field]: { ...pjson[field] } };
+      for (const other of dependencyFields) {
+        if (other === field) continue;
+        const moved = Object.keys(saved).filter(
+          (name) => pjson[other]?.[name] !== undefined
+        );
+        if (!moved.length) continue;
+        fields[other] = { ...pjson[other] };
+        for (const name of moved) delete fields[other][name];
+      }
+
+      for (const [name, range] of Object.entries(saved))
+        fields[field] = addDependency(fields[field], name, range);
+      return fields;
+    },
+    flags,
+    silent
+  );
+}
+
+/**
+ * Removes the packages of the given uninstalled specifiers from the local
+ * package.json, unless other top-level imports of the map still use them.
+ */
+export async function removeDependencies(
+  map: IImportMapJspm,
+  specifiers: string[],
+  flags: Flags,
+  silent = false
+) {
+  const log = withType("dependencies/removeDependencies");
+  const used = new Set(Object.keys(map.imports || {}).map(getPackageName));
+  const names = specifiers
+    .map(getPackageName)
+    .filter((name) => !used.has(name));
+  log(`Removing dependencies: ${names.join(", ")}`);
+  if (!names.length) return;
+
+  await updatePackageJson(
+    (pjson) => {
+      const fields = {};
+      for (const field of dependencyFields) {
+        if (!names.some((name) => pjson[field]?.[name] !== undefined)) continue;
+        fields[field] = { ...pjson[field] };
+        for (const name of names) delete fields[field][name];
+      }
+      return fields;
+    },
+    flags,
+    silent
+  );
+}
+
+// Returns the package name of a specifier, such as "lit" for "lit/html.js":
+export function getPackageName(specifier: string): string {
+  return /^(@[^/]+\/)?[^/]+/.exec(specifier)?.[0] ?? specifier;
+}
+
+// Parses an npm version range, returning null for non-semver targets such as
+// URLs, local paths and aliases:
+export function parseRange(range: string): SemverRange[] | null {
+  if (/^([a-z]+:|\.|\/)/i.test(range)) return null;
+  try {
+    if (SemverRange.isValid(range)) return [new SemverRange(range)];
+    return range.split("||").map((r: string) => convertRange(r.trim()));
+  } catch {
+    return null;
+  }
+}
+
+// Returns the specifier that a package target is installed under, such as
+// "lit/decorators.js" for "npm:lit@2.2.0/decorators.js":
+export function getTargetSpecifier(target: string): string {
+  const [, name, subpath = ""] =
+    /^(?:[a-z]+:)?((?:@[^/@]+\/)?[^/@]+)(?:@[^/]*)?(\/.*)?$/.exec(target) ?? [];
+  return name ? name + subpath : target;
+}
+
+/**
+ * Updates the fields of the local package.json that the given function
+ * returns, keeping the formatting and the order of the other fields.
+ */
+async function updatePackageJson(
+  update: (pjson: any) => Record<string, unknown>,
+  flags: Flags,
+  silent: boolean
+) {
+  const pjsonFile = path.resolve(process.cwd(), "package.json");
+  let source: string | undefined;
+  try {
+    source = await fs.readFile(pjsonFile, "utf-8");
+  } catch {}
+
+  let pjson: any;
+  try {
+    pjson = source?.trim() ? parseJsonc(source) : {};
+  } catch (e) {
+    throw new ParseError(`${c.cyan("package.json")} isn't valid JSON.`, {
+      cause: e,
+      hint: `Fix the syntax of ${c.cyan("package.json")}.`,
+    });
+  }
+
+  const fields = update(pjson);
+  const updated = setJsoncProperties(source?.trim() ? source : "{}\n", fields);
+  if (updated === source) return;
+
+  if (flags.dryRun) {
+    !silent &&
+      reportNote(
+        `Dry run, ${c.cyan("package.json")} would be updated with: ${c.dim(
+          JSON.stringify(fields)
+        )}`
+      );
+    return;
+  }
+
+  try {
+    await fs.writeFile(pjsonFile, updated);
+  } catch (e) {
+    throw new PermissionError(`Failed to write to ${pjsonFile}.`, {
+      cause: e,
+      hint: `Check the permissions of ${pjsonFile}.`,
+    });
+  }
+  !silent && reportOk(`Updated ${c.cyan("package.json")}`);
+}
+
+// Adds a dependency in place, or in sorted order if the dependencies are
+// sorted, as package managers keep them:
+function addDependency(
+  dependencies: Record<string, string>,
+  name: string,
+  range: string
+): Record<string, string> {
+  if (name in dependencies) return { ...dependencies, [name]: range };
+  const names = Object.keys(dependencies);
+  const sorted = names.every((n, i) => !i || names[i - 1] <= n);
+  const entries = [...Object.entries(dependencies), [name, range]];
+  if (sorted) entries.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return Object.fromEntries(entries);
+}
@@ -0,0 +1,107 @@
+import c from "picocolors";
+import type { IImportMapJspm } from "./types";
+
+export interface MapChange {
+  // The scope the mapping is in, or null for the top-level "imports":
+  scope: string | null;
+  specifier: string;
+  type: "added" | "removed" | "changed";
+  from?: string;
+  to?: string;
+}
+
+export interface MapDiff {
+  env: { from?: string[]; to?: string[] } | null;
+  changes: MapChange[];
+}
+
+/**
+ * Computes the mappings that were added, removed or changed between two
+ * import maps, including the mappings in all of their scopes.
+ */
+export function diffMaps(from: IImportMapJspm, to: IImportMapJspm): MapDiff {
+  const changes: MapChange[] = [];
+  const diffMappings = (
+    scope: string | null,
+    a: Record<string, string> = {},
+    b: Record<string, string> = {}
+  ) => {
+    const specifiers = [...new Set([...Object.keys(a), ...Object.keys(b)])];
+    for (const specifier of specifiers.sort()) {
+      if (!(specifier in a)) {
+        changes.push({ scope, specifier, type: "added", to: b[specifier] });
+      } else if (!(specifier in b)) {
+        changes.push({ scope, specifier, type: "removed", from: a[specifier] });
+      } else if (a[specifier] !== b[specifier]) {
+        changes.push({
+          scope,
+          specifier,
+          type: "changed",
+          from: a[specifier],
+          to: b[specifier],
+        });
+      }
+    }
+  };
+
+  diffMappings(null, from.imports, to.imports);
+  const scopes = new Set([
+    ...Object.keys(from.scopes || {}),
+    ...Object.keys(to.scopes || {}),
+  ]);
+  for (const scope of [...scopes].sort())
+    diffMappings(scope, from.scopes?.[scope], to.scopes?.[scope]);
+
+  const envChanged =
+    [...(from.env || [])].sort().join() !== [...(to.env || [])].sort().join();
+  return {
+    env: envChanged ? { from: from.env, to: to.env } : null,
+    changes,
+  };
+}
+
+/**
+ * Prints a map diff, using the given function to label the URLs of the
+ * mappings with their packages, such as "lit@2.7.0".
+ */
+export async function printDiff(
+  diff: MapDiff,
+  label: (url: string) => Promise<string | null>
+) {
+  if (diff.env) {
+    const from = diff.env.from?.join(", ") || "none";
+    const to = diff.env.to?.join(", ") || "none";
+    console.log(c.yellow(`  env: ${from} → ${to}`));
+  }
+
+  let scope: string | null | undefined;
+  for (const change of diff.changes) {
+    if (change.scope !== scope) {
+      scope = change.scope;
+      console.log(
+        c.bold(scope === null ? "  imports:" : `  scopes["${scope}"]:`)
+      );
+    }
+
+    const [from, to] = await Promise.all([
+      change.from && label(change.from),
+      change.to && label(change.to),
+    ]);
+    if (change.type === "added") {
+      console.log(c.green(`    + ${change.specifier}  ${to || change.to}`));
+    } else if (change.type === "removed") {
+      console.log(c.red(`    - ${change.specifier}  ${from || change.from}`));
+    } else {
+      // Show version changes where both URLs belong to different versions of
+      // a package, otherwise fall back to the URLs themselves:
+      const versionChange = from && to && from !== to;
+      console.log(
+        c.yellow(
+          `    ~ ${change.specifier}  ${versionChange ? from : change.from} → ${
+            versionChange ? to : change.to
+          }`
+        )
+      );
+    }
+  }
+}
@@ -0,0 +1,390 @@
+import { createHash } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import { type Generator, fetch } from "@jspm/generator";
+import c from "picocolors";
+import { withConfig } from "./config";
+import { diffMaps } from "./diff";
+import { JspmError, NetworkError, ProviderError } from "./errors";
+import { span, withType } from "./logger";
+import { isReporting, reportOk, reportOutput, reportResult } from "./report";
+import type { Flags, IImportMapJspm } from "./types";
+import {
+  getEnv,
+  getGenerator,
+  getInput,
+  getInputMap,
+  getInputPath,
+  startSpinner,
+  stopSpinner,
+} from "./utils";
+
+// Default directory to download dependencies into:
+const defaultVendorDir = "./vendor";
+
+// Number of modules that are downloaded at the same time:
+const downloadConcurrency = 8;
+
+// Default file for the rewritten import map, which is kept separate from the
+// input map so that it can still be installed into:
+const defaultOutputPath = "./importmap.vendor.json";
+
+// Import maps can carry the integrity of the modules they map, keyed by URL:
+export type VendoredMap = IImportMapJspm & {
+  integrity?: Record<string, string>;
+};
+
+export interface DownloadedModule {
+  url: string;
+  file: string;
+  integrity: string;
+}
+
+export interface IntegrityFailure {
+  url: string;
+  file: string;
+  reason: "missing" | "mismatch";
+}
+
+export default async function download(flags: Flags) {
+  const log = withType("download/download");
+
+  flags = await withConfig("download", flags);
+  flags = { ...flags, output: flags.output || defaultOutputPath };
+  log(`Flags: ${JSON.stringify(flags)}`);
+
+  const outputPath = path.resolve(process.cwd(), flags.output);
+  if (!outputPath.endsWith(".json"))
+    throw new JspmError(
+      `Downloads can only be written to a JSON import map, not ${flags.output}.`
+    );
+  if (flags.verify) return verify(outputPath, flags);
+
+  const input = await getInput(flags);
+  const mapFileRel = path.relative(process.cwd(), getInputPath(flags));
+  if (!input)
+    throw new JspmError(
+      `Nothing to download, ${mapFileRel} does not exist or is empty.`
+    );
+
+  const env = await getEnv(flags);
+  const generator = await getGenerator(flags);
+  const pins = await span("input parse", () => generator.addMappings(input));
+
+  log(`Input map parsed: ${input}`);
+
+  !flags.silent &&
+    startSpinner(`Tracing ${c.bold(mapFileRel)}. (${env.join(", ")})`);
+  const trace = pins.length
+    ? await span("trace", () => generator.link(pins))
+    : null;
+  const map = generator.getMap();
+
+  // Every module that is reachable from the map, along with the exact URLs
+  // that the map points to, which may not have been traced:
+  const urls = new Set([
+    ...(trace?.staticDeps || []),
+    ...(trace?.dynamicDeps || []),
+    ...[map.imports, ...Object.values(map.scopes || {})].flatMap((mappings) =>
+      Object.values(mappings || {})
+        .filter((url) => !url.endsWith("/"))
+        .map((url) => new URL(url, generator.mapUrl).href)
+    ),
+  ]);
+  const remoteUrls = [...urls].filter(isRemoteUrl).sort();
+  log(`Downloading: ${remoteUrls.join(", ")}`);
+
+  const vendorDir = path.resolve(
+    process.cwd(),
+    flags.vendorDir || defaultVendorDir
+  );
+  const inputIntegrity = ((await getInputMap(flags)) as VendoredMap).integrity;
+  !flags.silent &&
+    startSpinner(
+      `Downloading ${remoteUrls.length} modules into ${c.bold(
+        path.relative(process.cwd(), vendorDir)
+      )}.`
+    );
+  const downloads: DownloadedModule[] = await mapConcurrent(
+    remoteUrls,
+    downloadConcurrency,
+    async (url) => {
+      const file = await getVendorPath(generator, vendorDir, url);
+      const source = await fetchSource(generator, url);
+      const integrity = getIntegrity(source);
+
+      // The input map may already pin the integrity of the remote modules:
+      const expected = inputIntegrity?.[url];
+      if (expected && expected !== integrity)
+        throw new JspmError(
+          `Integrity check failed for ${url}, expected ${expected} but got ${integrity}.`,
+          { code: "ERR_INTEGRITY" }
+        );
+
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, source);
+      return { url, file, integrity };
+    }
+  );
+  stopSpinner();
+
+  const outputMap = await rewriteMap(
+    generator,
+    map,
+    vendorDir,
+    outputPath,
+    flags
+  );
+  outputMap.integrity = Object.fromEntries(
+    downloads.map(({ file, integrity }) => [
+      toMapUrl(file, outputPath, flags),
+      integrity,
+    ])
+  );
+
+  const output = { env, ...outputMap };
+  if (isReporting()) {
+    const previousMap = await fs
+      .readFile(outputPath, "utf-8")
+      .then(JSON.parse)
+      .catch(() => ({}));
+    reportOutput(
+      path.relative(process.cwd(), outputPath),
+      output,
+      diffMaps(previousMap, output).changes
+    );
+    reportResult({
+      downloads: downloads.map(({ url, file, integrity }) => ({
+        url,
+        file: path.relative(process.cwd(), file),
+        integrity,
+      })),
+    });
+  }
+  await fs.writeFile(
+    outputPath,
+    flags.compact ? JSON.stringify(output) : JSON.stringify(output, null, 2)
+  );
+
+  !flags.silent &&
+    reportOk(
+      `Downloaded ${downloads.length} modules into ${c.cyan(
+        path.relative(process.cwd(), vendorDir)
+      )}, and wrote ${c.cyan(path.relative(process.cwd(), outputPath))}`
+    );
+  return { map: output, downloads };
+}
+
+/**
+ * Checks the files in the "integrity" section of a downloaded import map
+ * against their hashes, throwing if any of them are missing or modified.
+ */
+async function verify(outputPath: string, flags: Flags) {
+  const mapFileRel = path.relative(process.cwd(), outputPath);
+  let map: VendoredMap;
+  try {
+    map = JSON.parse(await fs.readFile(outputPath, "utf-8"));
+  } catch {
+    throw new JspmError(
+      `Cannot verify ${mapFileRel}, it does not exist or is not a valid import map.`
+    );
+  }
+
+  const failures: IntegrityFailure[] = [];
+  const entries = Object.entries(map.integrity || {});
+  for (const [url, integrity] of entries) {
+    const file = fromMapUrl(url, outputPath, flags);
+    if (!file) continue;
+
+    let source: Buffer;
+    try {
+      source = await fs.readFile(file);
+    } catch {
+      failures.push({ url, file, reason: "missing" });
+      continue;
+    }
+    if (getIntegrity(source) !== integrity)
+      failures.push({ url, file, reason: "mismatch" });
+  }
+
+  if (failures.length)
+    throw new JspmError(
+      `Integrity check failed for ${
+        failures.length
+      } of the modules in ${mapFileRel}:\n${failures
+        .map(({ url, reason }) => `  ${url} (${reason})`)
+        .join("\n")}`,
+      {
+        code: "ERR_INTEGRITY",
+        hint: `Run ${c.bold("jspm download")} again to replace them.`,
+      }
+    );
+
+  !flags.silent &&
+    reportOk(`Verified ${entries.length} modules in ${c.cyan(mapFileRel)}`);
+  return { map, failures };
+}
+
+/**
+ * Rewrites the remote URLs in an import map to point at their downloaded
+ * copies. Scopes for the root of a provider, such as "https://ga.jspm.io/",
+ * are rewritten to the vendor directory, which holds every package.
+ */
+async function rewriteMap(
+  generator: Generator,
+  map: IImportMapJspm,
+  vendorDir: string,
+  outputPath: string,
+  flags: Flags
+): Promise<VendoredMap> {
+  const rewrite = async (url: string) => {
+    const resolved = new URL(url, generator.mapUrl).href;
+    if (!isRemoteUrl(resolved)) return url;
+    const file = await getVendorPath(generator, vendorDir, resolved);
+    return toMapUrl(file, outputPath, flags) + (url.endsWith("/") ? "/" : "");
+  };
+  const rewriteMappings = async (mappings: Record<string, string> = {}) =>
+    Object.fromEntries(
+      await Promise.all(
+        Object.entries(mappings).map(async ([specifier, url]) => [
+          specifier,
+          await rewrite(url),
+        ])
+      )
+    );
+
+  const vendorMap: VendoredMap = {
+    imports: await rewriteMappings(map.imports),
+  };
+  for (const [scope, mappings] of Object.entries(map.scopes || {})) {
+    const scopeUrl = new URL(scope, generator.mapUrl).href;
+    const isPackageScope =
+      !isRemoteUrl(scopeUrl) ||
+      (await generator.traceMap.resolver.parseUrlPkg(scopeUrl));
+    const vendorScope = isPackageScope
+      ? await rewrite(scope)
+      : `${toMapUrl(vendorDir, outputPath, flags)}/`;
+
+    vendorMap.scopes ??= {};
+    vendorMap.scopes[vendorScope] = {
+      ...vendorMap.scopes[vendorScope],
+      ...(await rewriteMappings(mappings)),
+    };
+  }
+  return vendorMap;
+}
+
+// Returns the path to download a remote URL to. Package files keep their
+// "name@version" layout, such as "vendor/lit@2.7.0/index.js", and other URLs
+// are grouped by host, such as "vendor/example.com/module.js". URLs whose
+// decoded path would escape the vendor directory are rejected:
+async function getVendorPath(
+  generator: Generator,
+  vendorDir: string,
+  url: string
+): Promise<string> {
+  const { resolver } = generator.traceMap;
+  const parsed = await resolver.parseUrlPkg(url);
+  let file: string;
+  if (parsed) {
+    const { pkg, source } = parsed;
+    const pkgUrl = await resolver.pkgToUrl(pkg, source);
+    const pkgDir = `${pkg.name}@${pkg.version}`;
+    file = path.join(
+      vendorDir,
+      pkg.registry === "npm" ? pkgDir : path.join(pkg.registry, pkgDir),
+      decodeURIComponent(
+        new URL(url).pathname.slice(new URL(pkgUrl).pathname.length)
+      )
+    );
+  } else {
+    const { host, pathname } = new URL(url);
+    file = path.join(
+      vendorDir,
+      host.replace(":", "_"),
+      decodeURIComponent(pathname)
+    );
+  }
+
+  const relative = path.relative(vendorDir, file);
+  if (
+    relative === ".." ||
+    relative.startsWith(`..${path.sep}`) ||
+    path.isAbsolute(relative)
+  )
+    throw new JspmError(
+      `Cannot download ${url}, its path is outside of the vendor directory.`
+    );
+  return file;
+}
+
+// Returns the URL to use in the output map for a local file, which is
+// relative to the output map, or to the server root if one is set:
+function toMapUrl(file: string, outputPath: string, flags: Flags): string {
+  if (flags.root) {
+    const rootDir = path.resolve(process.cwd(), flags.root);
+    return `/${path.relative(rootDir, file).split(path.sep).join("/")}`;
+  }
+
+  const relative = path
+    .relative(path.dirname(outputPath), file)
+    .split(path.sep)
+    .join("/");
+  return relative.startsWith("../") ? relative : `./${relative}`;
+}
+
+// Inverse of toMapUrl, returning null for URLs that aren't local files:
+function fromMapUrl(
+  url: string,
+  outputPath: string,
+  flags: Flags
+): string | null {
+  const resolved =
+    flags.root && url.startsWith("/")
+      ? new URL(
+          `.${url}`,
+          pathToFileURL(`${path.resolve(process.cwd(), flags.root)}/`)
+        )
+      : new URL(url, pathToFileURL(outputPath));
+  return resolved.protocol === "file:" ? fileURLToPath(resolved) : null;
+}
+
+export async function fetchSource(generator: Generator, url: string) {
+  const res = await fetch(url, generator.traceMap.resolver.fetchOpts);
+  if (!res) throw new NetworkError(`Unable to download ${url}.`);
+  if (res.status !== 200)
+    throw new ProviderError(
+      `Unable to download ${url}, status code ${res.status}.`
+    );
+  return Buffer.from(await res.arrayBuffer());
+}
+
+export function getIntegrity(source: Buffer): string {
+  return `sha384-${createHash("sha384").update(source).digest("base64")}`;
+}
+
+// Maps the items with at most the given number of calls in flight at once,
+// keeping the order of the items in the results:
+async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker)
+  );
+  return results;
+}
+
+function isRemoteUrl(url: string): boolean {
+  return url.startsWith("https:") || url.startsWith("http:");
+}
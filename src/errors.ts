@@ -0,0 +1,192 @@
+import c from "picocolors";
+import type { Flags } from "./types";
+
+export interface JspmErrorOptions {
+  // Stable code identifying the error, which defaults to the code of its
+  // category, such as "ERR_INVALID_SPECIFIER":
+  code?: string;
+
+  // Next step for fixing the error, such as a "did you mean" suggestion:
+  hint?: string;
+
+  cause?: unknown;
+}
+
+/**
+ * Errors that are reported to the user as a message, rather than as a stack
+ * trace. Each category of error has its own class, with a stable code and a
+ * consistent exit code for the CLI.
+ */
+export class JspmError extends Error {
+  static code = "ERR_JSPM";
+  static exitCode = 1;
+
+  jspmError = true;
+  code: string;
+  hint?: string;
+
+  constructor(message: string, { code, hint, cause }: JspmErrorOptions = {}) {
+    super(message, { cause });
+    this.code = code ?? (new.target as typeof JspmError).code;
+    this.hint = hint;
+  }
+
+  get exitCode(): number {
+    return (this.constructor as typeof JspmError).exitCode;
+  }
+}
+
+// Package specifiers and install targets that can't be parsed:
+export class InvalidSpecifierError extends JspmError {
+  static code = "ERR_INVALID_SPECIFIER";
+  static exitCode = 2;
+}
+
+// Versions that can't be resolved, or that conflict with the constraints of
+// the map, such as ranges without matching versions:
+export class ResolutionConflictError extends JspmError {
+  static code = "ERR_RESOLUTION_CONFLICT";
+  static exitCode = 3;
+}
+
+// Providers that are unknown, misconfigured or respond with an error:
+export class ProviderError extends JspmError {
+  static code = "ERR_PROVIDER";
+  static exitCode = 4;
+}
+
+// Requests that fail before getting a response, including packages that
+// are missing from the cache with "--cache offline":
+export class NetworkError extends JspmError {
+  static code = "ERR_NETWORK";
+  static exitCode = 5;
+}
+
+// Files that JSPM doesn't have permission to read or write:
+export class PermissionError extends JspmError {
+  static code = "ERR_PERMISSION";
+  static exitCode = 6;
+}
+
+// Import maps, configuration files and modules that can't be parsed:
+export class ParseError extends JspmError {
+  static code = "ERR_PARSE";
+  static exitCode = 7;
+}
+
+const networkErrorCodes = [
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "ETIMEDOUT",
+];
+
+/**
+ * Converts the errors of the generator and of Node.js into JSPM errors of
+ * the matching category, returning null for internal errors.
+ */
+export function toJspmError(e: any, flags: Flags = {}): JspmError | null {
+  if (e instanceof JspmError) return e;
+  const message: string = e?.message ?? "";
+
+  // Errors of the generator have the same shape as ours, without a category:
+  if (e?.jspmError) {
+    const options = { code: e.code, cause: e };
+    if (
+      /^(Invalid package (name|target)|Unable to determine an alias)/.test(
+        message
+      )
+    )
+      return new InvalidSpecifierError(message, {
+        ...options,
+        hint: `Package specifiers look like "lit", "lit@2" or "npm:lit@2.7.0".`,
+      });
+    if (
+      /^Unable to resolve (\S+ to a valid version|package \S+ in range)/.test(
+        message
+      ) ||
+      e.code === "ERR_NOT_INSTALLED"
+    )
+      return new ResolutionConflictError(message, {
+        ...options,
+        hint: `Check that the package exists with a version in the required range, or override its version with ${c.bold(
+          "--resolution name=version"
+        )}.`,
+      });
+    if (
+      /^(Invalid status code|Unable to request the JSPM API|Timed out waiting|No provider named)/.test(
+        message
+      )
+    )
+      return new ProviderError(message, {
+        ...options,
+        hint: `Try again later, or use a different provider with ${c.bold(
+          "--provider"
+        )}.`,
+      });
+    if (/^Error parsing|Error parsing \S+:\d/.test(message))
+      return new ParseError(message, options);
+    return new JspmError(message, options);
+  }
+
+  if (networkErrorCodes.includes(e?.code)) {
+    if (flags.cache === "offline")
+      return new NetworkError(message, {
+        code: "ERR_OFFLINE_CACHE_MISS",
+        cause: e,
+        hint: `Some packages are not in the local cache yet. Run the command once without ${c.bold(
+          "--cache offline"
+        )} to cache them.`,
+      });
+    return new NetworkError(message, {
+      cause: e,
+      hint: `Check your network connection, or use ${c.bold(
+        "--cache offline"
+      )} to only use the local cache.`,
+    });
+  }
+  if (e?.code === "EACCES" || e?.code === "EPERM")
+    return new PermissionError(message, {
+      cause: e,
+      hint: `Check the permissions of ${e.path ?? "the file"}.`,
+    });
+  if (e instanceof SyntaxError) return new ParseError(message, { cause: e });
+  return null;
+}
+
+/**
+ * Returns a "did you mean" hint for the candidate that is closest to the
+ * input, if any are close enough to be a likely typo.
+ */
+export function didYouMean(
+  input: string,
+  candidates: readonly string[]
+): string | undefined {
+  let best: string | undefined;
+  let bestDistance = Math.max(2, Math.floor(input.length / 3)) + 1;
+  for (const candidate of candidates) {
+    const distance = editDistance(input, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best && `Did you mean "${best}"?`;
+}
+
+// Levenshtein distance between two strings:
+function editDistance(a: string, b: string): number {
+  let row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const next = [i];
+    for (let j = 1; j <= b.length; j++)
+      next[j] = Math.min(
+        row[j] + 1,
+        next[j - 1] + 1,
+        row[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    row = next;
+  }
+  return row[b.length];
+}
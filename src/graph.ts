@@ -0,0 +1,190 @@
+import path from "path";
+import { fileURLToPath } from "url";
+import type { Generator } from "@jspm/generator";
+import { span, withType } from "./logger";
+
+/**
+ * A package in the traced import map, or a single module for modules that
+ * aren't part of any package, such as local application code.
+ */
+export interface GraphNode {
+  // Unique identifier of the node, such as "npm:lit@2.7.0" for packages, or
+  // the URL of the module for modules that aren't part of a package:
+  id: string;
+  name: string;
+  version?: string;
+  registry?: string;
+  provider?: string;
+
+  // Package base URL, or the module URL for modules outside of a package:
+  url: string;
+  deps: GraphEdge[];
+}
+
+export interface GraphEdge {
+  // The import specifier that first resolved to the dependency:
+  specifier: string;
+  node: GraphNode;
+}
+
+export interface Graph {
+  // Top-level "imports" of the map, keyed by their pins:
+  roots: GraphEdge[];
+  nodes: Map<string, GraphNode>;
+}
+
+/**
+ * Traces the given top-level pins with the generator, and collapses the
+ * resulting module graph into a graph of packages. An edge from one package
+ * to another means that some module in the first package imports a module
+ * in the second.
+ */
+export async function traceGraph(
+  generator: Generator,
+  pins: string[]
+): Promise<Graph> {
+  const log = withType("graph/traceGraph");
+
+  log(`Tracing pins: ${pins.join(", ")}`);
+  if (pins.length) await span("trace", () => generator.link(pins));
+
+  const { resolver, tracedUrls } = generator.traceMap;
+  const nodes = new Map<string, GraphNode>();
+  const urlNodes = new Map<string, Promise<GraphNode>>();
+
+  const createNode = async (url: string): Promise<GraphNode> => {
+    const parsed = await resolver.parseUrlPkg(url);
+    if (!parsed) {
+      return { id: url, name: displayUrl(url), url, deps: [] };
+    }
+
+    const { pkg, source } = parsed;
+    const pkgUrl = await resolver.pkgToUrl(pkg, source);
+
+    // The "nodemodules" provider uses the encoded package URL as the package
+    // version, so the real version has to come from the package.json:
+    let version = pkg.version;
+    if (pkg.registry === "node_modules")
+      version = (await resolver.getPackageConfig(pkgUrl))?.version;
+
+    return {
+      id:
+        pkg.registry === "node_modules"
+          ? pkgUrl
+          : `${pkg.registry}:${pkg.name}@${pkg.version}`,
+      name: pkg.name,
+      version,
+      registry: pkg.registry,
+      provider: source.provider,
+      url: pkgUrl,
+      deps: [],
+    };
+  };
+
+  const getNode = (url: string): Promise<GraphNode> => {
+    if (!urlNodes.has(url)) {
+      urlNodes.set(
+        url,
+        createNode(url).then((node) => {
+          if (!nodes.has(node.id)) nodes.set(node.id, node);
+          return nodes.get(node.id);
+        })
+      );
+    }
+    return urlNodes.get(url);
+  };
+
+  const visited = new Set<string>();
+  const visit = async (url: string, node: GraphNode) => {
+    if (visited.has(url)) return;
+    visited.add(url);
+
+    const entry = tracedUrls[url];
+    if (!entry) return;
+    for (const specifier of [...entry.deps, ...entry.dynamicDeps]) {
+      const depUrl = resolve(generator, specifier, url);
+      if (!depUrl) continue;
+
+      const depNode = await getNode(depUrl);
+      if (depNode !== node && !node.deps.some((dep) => dep.node === depNode))
+        node.deps.push({ specifier, node: depNode });
+
+      await visit(depUrl, depNode);
+    }
+  };
+
+  const roots: GraphEdge[] = [];
+  for (const pin of pins) {
+    const url = resolve(generator, pin, generator.baseUrl.href);
+    if (!url) {
+      log(`Skipping unresolvable pin: ${pin}`);
+      continue;
+    }
+
+    const node = await getNode(url);
+    roots.push({ specifier: pin, node });
+    await visit(url, node);
+  }
+
+  return { roots, nodes };
+}
+
+/**
+ * Returns the version range that the package containing the given URL
+ * declares for the named dependency in its package.json, if any.
+ */
+export async function getDependencyRange(
+  generator: Generator,
+  parentUrl: string,
+  name: string
+): Promise<string | undefined> {
+  const { resolver } = generator.traceMap;
+  try {
+    const pcfg = await resolver.getPackageConfig(
+      await resolver.getPackageBase(parentUrl)
+    );
+    return (
+      pcfg?.dependencies?.[name] ??
+      pcfg?.peerDependencies?.[name] ??
+      pcfg?.optionalDependencies?.[name] ??
+      pcfg?.devDependencies?.[name]
+    );
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Returns a display string for the given node, such as "lit@2.7.0".
+ */
+export function nodeLabel(
+  node: Pick<GraphNode, "name" | "version" | "registry">
+): string {
+  if (!node.registry) return node.name;
+  const registry =
+    node.registry === "npm" || node.registry === "node_modules"
+      ? ""
+      : `${node.registry}:`;
+  return `${registry}${node.name}@${node.version ?? "unknown"}`;
+}
+
+export function resolve(
+  generator: Generator,
+  specifier: string,
+  parentUrl: string
+): string | null {
+  try {
+    return generator.resolve(specifier, parentUrl);
+  } catch {
+    // Builtins and ignored specifiers don't resolve against the map:
+    return null;
+  }
+}
+
+function displayUrl(url: string): string {
+  if (!url.startsWith("file:")) return url;
+  const rel = path
+    .relative(process.cwd(), fileURLToPath(url))
+    .replace(/\\/g, "/");
+  return rel.startsWith("../") ? rel : `./${rel}`;
+}
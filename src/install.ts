@@ -1,22 +1,29 @@
 import c from "picocolors";
-import { withType } from "./logger";
+import { withConfig } from "./config";
+import { getTargetSpecifier, saveDependencies } from "./dependencies";
+import { InvalidSpecifierError } from "./errors";
+import { span, withType } from "./logger";
+import { reportWarning } from "./report";
 import type { Flags } from "./types";
 import {
-    JspmError,
-    getEnv,
-    getGenerator,
-    getInput,
-    isUrlLikeNotPackage,
-    startSpinner,
-    stopSpinner,
-    writeOutput
+  getEnv,
+  getGenerator,
+  getInput,
+  isUrlLikeNotPackage,
+  startSpinner,
+  stopSpinner,
+  withEnvMatrix,
+  writeOutput,
 } from "./utils";
 
 export default async function install(packages: string[], flags: Flags) {
   const log = withType("install/install");
 
   log(`Installing packages: ${packages.join(", ")}`);
+  flags = await withConfig("install", flags);
   log(`Flags: ${JSON.stringify(flags)}`);
+  if (flags.envMatrix)
+    return withEnvMatrix(flags, (flags) => install(packages, flags));
 
   const isInstallable = (p) => !isUrlLikeNotPackage(p.target);
   const parsedPackages = packages.map((p) => {
@@ -25,10 +32,9 @@ export default async function install(packages: string[], flags: Flags) {
     return { alias, target };
   });
 
-
   // Packages that can be installed by the generator:
   const resolvedPackages = parsedPackages.filter(isInstallable);
-  
+
   // Packages that can be installed directly as URLs, see the issue:
   // https://github.com/jspm/generator/issues/291
   const urlLikePackages = parsedPackages.filter((p) => !isInstallable(p));
@@ -38,12 +44,16 @@ export default async function install(packages: string[], flags: Flags) {
   const generator = await getGenerator(flags);
   let pins = [];
   if (input) {
-    pins = await generator.addMappings(input);
+    pins = await span("input parse", () => generator.addMappings(input));
   }
   if (urlLikePackages?.length) {
     const imports = {};
     for (const { alias, target } of urlLikePackages) {
-      if (!alias) throw new JspmError(`URL-like target "${target}" must be given an alias to install under, such as "name=${target}".`);
+      if (!alias)
+        throw new InvalidSpecifierError(
+          `URL-like target "${target}" must be given an alias to install under.`,
+          { hint: `Install it as "name=${target}".` }
+        );
 
       imports[alias] = target;
     }
@@ -61,21 +71,35 @@ export default async function install(packages: string[], flags: Flags) {
           resolvedPackages.map((p) => p.alias || p.target).join(", ")
         )}. (${env.join(", ")})`
       );
-    await generator.install(resolvedPackages);
+    await span("install", () => generator.install(resolvedPackages));
     stopSpinner();
   } else if (pins.length) {
     !flags.silent && startSpinner(`Reinstalling all top-level imports.`);
-    await generator.install();
+    await span("install", () => generator.install());
     stopSpinner();
   } else {
     !flags.silent &&
-      console.warn(
-        `${c.red(
-          "Warning:"
-        )} Nothing to install, outputting an empty import map. Either provide a list of package to install, or a non-empty input file.`
+      reportWarning(
+        "WARN_NOTHING_TO_INSTALL",
+        "Nothing to install, outputting an empty import map. Either provide a list of package to install, or a non-empty input file."
       );
   }
 
   // Installs always behave additively, and write all top-level pins:
-  return await writeOutput(generator, null, env, flags, flags.silent);
+  const map = await writeOutput(generator, null, env, flags, flags.silent);
+
+  // Reinstalls save all of the top-level imports of the map:
+  if (flags.save || flags.saveDev || flags.saveExact)
+    await saveDependencies(
+      generator,
+      map,
+      parsedPackages.length
+        ? parsedPackages.map((p) => p.alias || getTargetSpecifier(p.target))
+        : Object.keys(map.imports || {}).filter(
+            (specifier) => !isUrlLikeNotPackage(specifier)
+          ),
+      flags,
+      flags.silent
+    );
+  return map;
 }
@@ -0,0 +1,171 @@
+/**
+ * Support for JSON with comments and trailing commas, which Deno allows in
+ * its configuration files. Sources are edited in place, so that comments and
+ * formatting are kept for everything that isn't changed.
+ */
+
+interface Property {
+  key: string;
+  start: number;
+  valueStart: number;
+  valueEnd: number;
+}
+
+export function parseJsonc(source: string): any {
+  const stripped = stripComments(source);
+  let json = "";
+  let last = 0;
+  forEachToken(stripped, (char, i) => {
+    if (char !== ",") return;
+    const next = stripped.slice(i + 1).match(/^\s*(.)/)?.[1];
+    if (next === "}" || next === "]") {
+      json += stripped.slice(last, i);
+      last = i + 1;
+    }
+  });
+  return JSON.parse(json + stripped.slice(last));
+}
+
+/**
+ * Sets the given top-level properties of an object in a JSONC source, adding
+ * the ones that don't exist yet and removing the ones that are undefined.
+ */
+export function setJsoncProperties(
+  source: string,
+  properties: Record<string, unknown>,
+  compact = false
+): string {
+  const indent = compact
+    ? ""
+    : stripComments(source).match(/{\s*?\n([ \t]+)"/)?.[1] ?? "  ";
+  const serialize = (value: unknown) =>
+    compact
+      ? JSON.stringify(value)
+      : JSON.stringify(value, null, indent).replace(/\n/g, `\n${indent}`);
+
+  for (const [key, value] of Object.entries(properties)) {
+    const stripped = stripComments(source);
+    const property = getProperties(stripped).find((p) => p.key === key);
+    if (property && value === undefined) {
+      // The separating comma goes with the removed property:
+      const after = stripped.slice(property.valueEnd).match(/^\s*,/);
+      const before = stripped.slice(0, property.start).match(/,\s*$/);
+      const start = after ? property.start : before?.index ?? property.start;
+      const end = after
+        ? property.valueEnd + after[0].length
+        : property.valueEnd;
+      source =
+        source.slice(0, start).replace(/[ \t]*$/, "") +
+        source.slice(end).replace(/^[ \t]*\n?/, after ? "" : "\n");
+    } else if (property) {
+      source =
+        source.slice(0, property.valueStart) +
+        serialize(value) +
+        source.slice(property.valueEnd);
+    } else if (value !== undefined) {
+      // New properties go after the last one, along with any comments on
+      // its line, which belong to it:
+      const content = stripped.slice(0, stripped.lastIndexOf("}")).trimEnd();
+      const comments = compact
+        ? ""
+        : /^(?:[ \t]*(?:\/\/[^\n]*|\/\*[\s\S]*?\*\/))*/.exec(
+            source.slice(content.length)
+          )[0];
+      const end = content.length + comments.length;
+      let rest = source.slice(end);
+      const separator = /[{,]$/.test(content) ? "" : ",";
+      let added = `${JSON.stringify(key)}:${serialize(value)}`;
+      if (!compact) {
+        added = `\n${indent}${JSON.stringify(key)}: ${serialize(value)}`;
+        if (!/^\s*\n/.test(rest)) {
+          added += "\n";
+          rest = rest.trimStart();
+        }
+      }
+      source =
+        source.slice(0, content.length) + separator + comments + added + rest;
+    }
+  }
+  return source;
+}
+
+// Replaces comments with spaces, so that the offsets in the source are kept:
+function stripComments(source: string): string {
+  let stripped = "";
+  let last = 0;
+  forEachToken(
+    source,
+    () => {},
+    (start, end) => {
+      stripped += source.slice(last, start);
+      stripped += source.slice(start, end).replace(/[^\n]/g, " ");
+      last = end;
+    }
+  );
+  return stripped + source.slice(last);
+}
+
+// Finds the properties of the top-level object in a source without comments:
+function getProperties(stripped: string): Property[] {
+  const properties: Property[] = [];
+  let depth = 0;
+  let property: Partial<Property> | null = null;
+  let keyEnd = -1;
+  forEachToken(stripped, (char, i, stringEnd) => {
+    if (depth === 1 && char === '"' && !property) {
+      property = { key: JSON.parse(stripped.slice(i, stringEnd)), start: i };
+      keyEnd = stringEnd;
+    } else if (
+      depth === 1 &&
+      char === ":" &&
+      property?.valueStart === undefined &&
+      i >= keyEnd
+    ) {
+      property.valueStart = i + 1 + stripped.slice(i + 1).search(/\S/);
+    }
+    if (char === "{" || char === "[") depth++;
+    if (char === "}" || char === "]") depth--;
+    if (
+      property?.valueStart !== undefined &&
+      depth <= 1 &&
+      (char === "," || (char === "}" && depth === 0))
+    ) {
+      property.valueEnd = stripped.slice(0, i).trimEnd().length;
+      properties.push(property as Property);
+      property = null;
+    }
+  });
+  return properties;
+}
+
+/**
+ * Calls the visitor with the structural characters of a JSONC source, and
+ * with the opening quotes of strings along with the offset after the string.
+ * Comments are passed to the optional comment visitor instead.
+ */
+function forEachToken(
+  source: string,
+  visit: (char: string, i: number, stringEnd?: number) => void,
+  visitComment?: (start: number, end: number) => void
+) {
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === '"') {
+      let end = i + 1;
+      while (end < source.length && source[end] !== '"')
+        end += source[end] === "\\" ? 2 : 1;
+      visit(char, i, end + 1);
+      i = end;
+    } else if (char === "/" && source[i + 1] === "/") {
+      const end = source.indexOf("\n", i);
+      visitComment?.(i, end === -1 ? source.length : end);
+      i = end === -1 ? source.length : end - 1;
+    } else if (char === "/" && source[i + 1] === "*") {
+      const end = source.indexOf("*/", i + 2);
+      visitComment?.(i, end === -1 ? source.length : end + 2);
+      i = end === -1 ? source.length : end + 1;
+    } else if (!/\s/.test(char)) {
+      visit(char, i);
+    }
+  }
+}
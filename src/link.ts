@@ -1,35 +1,98 @@
 import * as fs from "node:fs/promises";
+import path from "node:path";
 import { pathToFileURL } from "url";
 import c from "picocolors";
 import { type Generator } from "@jspm/generator";
-import type { Flags } from "./types";
+import { diffMaps } from "./diff";
+import { ParseError } from "./errors";
+import { reportNote, reportWarning } from "./report";
+import type { Flags, IImportMapJspm } from "./types";
 import {
   getEnv,
   getGenerator,
   getInput,
   getInputPath,
+  getLocalModules,
   getOutputPath,
+  invalidateLocalModules,
+  reportFailure,
   startSpinner,
   stopSpinner,
+  withCommandReport,
+  withEnvMatrix,
   writeOutput,
 } from "./utils";
-import { withType } from "./logger";
+import { withConfig } from "./config";
+import { span, withType } from "./logger";
+import { type FileWatcher, createWatcher } from "./watcher";
+
+// Watchers of the linked maps, which are closed by stopWatching():
+const watchers = new Set<FileWatcher>();
 
 export default async function link(modules: string[], flags: Flags) {
   const log = withType("link/link");
 
   log(`Linking modules: ${modules.join(", ")}`);
+  flags = await withConfig("link", flags);
   log(`Flags: ${JSON.stringify(flags)}`);
+  if (flags.envMatrix)
+    return withEnvMatrix(flags, (flags) => link(modules, flags));
 
   const env = await getEnv(flags);
+  const generator = await getGenerator(flags);
+
+  const linked = await linkModules(modules, generator, env, flags);
+  const output = await writeOutput(
+    generator,
+    linked.outputPins,
+    env,
+    flags,
+    flags.silent
+  );
+  if (flags.watch) watch(modules, generator, env, flags, linked);
+  return output;
+}
+
+/**
+ * Stops watching the files of the maps that were linked with "--watch", for
+ * programmatic use of link().
+ */
+export function stopWatching() {
+  for (const watcher of watchers) watcher.close();
+  watchers.clear();
+}
+
+interface Linked {
+  // The top-level pins to extract the output map for, or null for the full
+  // map of the generator:
+  outputPins: string[] | null;
+  map: IImportMapJspm;
+
+  // The local modules and HTML files that were linked:
+  localFiles: string[];
+}
+
+/**
+ * Links the given modules into the generator, returning the linked map and
+ * the local files that it was traced from.
+ */
+async function linkModules(
+  modules: string[],
+  generator: Generator,
+  env: string[],
+  flags: Flags
+): Promise<Linked> {
+  const log = withType("link/linkModules");
   const inputMapPath = getInputPath(flags);
   const outputMapPath = getOutputPath(flags);
-  const generator = await getGenerator(flags);
 
   const inlinePins: string[] = [];
+  const localFiles: string[] = [];
   const resolvedModules = (
     await Promise.all(
-      modules.map((spec) => resolveModule(spec, inlinePins, generator))
+      modules.map((spec) =>
+        resolveModule(spec, inlinePins, localFiles, generator)
+      )
     )
   ).filter((m) => !!m);
 
@@ -40,7 +103,9 @@ export default async function link(modules: string[], flags: Flags) {
   const pins = inlinePins.concat(resolvedModules.map((p) => p.target));
   let allPins = pins;
   if (input) {
-    allPins = pins.concat(await generator.addMappings(input));
+    allPins = pins.concat(
+      await span("input parse", () => generator.addMappings(input))
+    );
   }
 
   log(`Input map parsed: ${input}`);
@@ -58,30 +123,100 @@ export default async function link(modules: string[], flags: Flags) {
         );
     }
 
-    await generator.link(allPins.concat(pins));
+    await span("trace", () => generator.link(allPins.concat(pins)));
     stopSpinner();
   } else {
     !flags.silent &&
-      console.warn(
-        `${c.red(
-          "Warning:"
-        )} Found nothing to link, will default to relinking input map. Provide a list of modules or HTML files with inline modules to change this behaviour.`
+      reportWarning(
+        "WARN_NOTHING_TO_LINK",
+        "Found nothing to link, will default to relinking input map. Provide a list of modules or HTML files with inline modules to change this behaviour."
       );
   }
 
+  // Every local module that was traced is a candidate for watching:
+  localFiles.push(...getLocalModules(generator));
+
   // If the user has provided modules and the output path is different to the
   // input path, then we behave as an extraction from the input map. In all
   // other cases we behave as an update to the map:
-  if (inputMapPath !== outputMapPath && modules.length !== 0) {
-    return await writeOutput(generator, pins, env, flags, flags.silent);
-  } else {
-    return await writeOutput(generator, null, env, flags, flags.silent);
-  }
+  const outputPins =
+    inputMapPath !== outputMapPath && modules.length !== 0 ? pins : null;
+  const map: IImportMapJspm = outputPins?.length
+    ? (await generator.extractMap(outputPins))?.map
+    : generator.getMap();
+  return { outputPins, map, localFiles: [...new Set(localFiles)] };
+}
+
+/**
+ * Watches the given local files, relinking the modules with the generator
+ * whenever one of them changes. Only the changed local modules are traced
+ * again, and the pins are reset so that imports removed from HTML files are
+ * dropped. The output is only rewritten if the linked map has changed.
+ */
+function watch(
+  modules: string[],
+  generator: Generator,
+  env: string[],
+  flags: Flags,
+  { map, localFiles }: Linked
+) {
+  const log = withType("link/watch");
+  let lastError: string | null = null;
+
+  // Every relink is reported as a command of its own:
+  const asResult = (fn: () => Promise<void>) =>
+    withCommandReport("link", flags, fn);
+
+  const watcher = createWatcher(async (files) => {
+    try {
+      invalidateLocalModules(generator, files);
+      generator.traceMap.pins = [];
+      const linked = await linkModules(modules, generator, env, flags);
+      lastError = null;
+      watcher.watch(linked.localFiles);
+
+      const diff = diffMaps(map, linked.map);
+      if (!diff.changes.length) {
+        log(`Linked map is unchanged, skipping write`);
+        return;
+      }
+      map = linked.map;
+      await asResult(async () => {
+        await writeOutput(
+          generator,
+          linked.outputPins,
+          env,
+          flags,
+          flags.silent
+        );
+      });
+    } catch (e) {
+      stopSpinner();
+
+      // Only report an error once, rather than on every save until it's
+      // fixed, and keep watching the files we know about:
+      if (e.message !== lastError && !flags.silent)
+        await asResult(async () => reportFailure(e, flags));
+      lastError = e.message;
+      watcher.watch([...new Set([...watcher.files(), ...localFiles])]);
+    }
+  });
+
+  watcher.watch(localFiles);
+  watchers.add(watcher);
+  const count = watcher.files().length;
+  !flags.silent &&
+    reportNote(
+      `Watching ${count} file${
+        count === 1 ? "" : "s"
+      } for changes, press Ctrl+C to stop.`
+    );
 }
 
 async function resolveModule(
   p: string,
   inlinePins: string[],
+  localFiles: string[],
   generator: Generator
 ) {
   const log = withType("link/resolveModule");
@@ -111,6 +246,7 @@ async function resolveModule(
 
       log(`Resolving target '${res.target}' as '${targetPath}'`);
       res.target = targetPath;
+      localFiles.push(path.resolve(targetPath));
 
       return handleLocalFile(res, inlinePins, generator);
     } catch (e) {
@@ -147,7 +283,12 @@ async function handleLocalFile(
     throw e;
   }
   if (!pins || pins.length === 0) {
-    throw new Error("No inline HTML modules found to link.");
+    throw new ParseError(
+      `No inline HTML modules found to link in "${resolvedModule.target}".`,
+      {
+        hint: "If it is a JavaScript module, check it for syntax errors.",
+      }
+    );
   }
 
   inlinePins.push(...pins);
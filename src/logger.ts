@@ -1,21 +1,52 @@
+import { type WriteStream, createWriteStream } from "fs";
 import fs from "fs/promises";
 import os from "os";
+import { performance } from "perf_hooks";
 import c from "picocolors";
 
-export type Log = (type: string, message: string) => void;
-export type LogStream = () => AsyncGenerator<
-  { type: string; message: string },
-  never,
-  unknown
->;
+// Log levels, from the least to the most detailed:
+export const logLevels = ["error", "warn", "info", "debug", "trace"] as const;
+export type LogLevel = (typeof logLevels)[number];
 
-// Switch for checking if debug logging is on:
+export interface LogEntry {
+  time: string;
+  level: LogLevel;
+  type: string;
+  message: string;
+
+  // Duration of timed spans, in milliseconds:
+  duration?: number;
+}
+
+export type Log = (type: string, message: string, level?: LogLevel) => void;
+export type LogStream = () => AsyncGenerator<LogEntry, never, unknown>;
+
+interface Sink {
+  level: LogLevel;
+  write: (entry: LogEntry) => void;
+}
+
+export interface LoggerOptions {
+  // Level of the log entries printed to stderr, if any:
+  level?: LogLevel | null;
+
+  // File to write all log entries to as JSON lines, if any:
+  file?: string | null;
+}
+
+// Switch for checking if debug logging to a file is on:
 export const logEnabled = !!process.env.JSPM_CLI_LOG;
 
+// Sinks that log entries are written to. The debug log file is configured
+// through the environment, and the other sinks per command with flags:
+let fileSink: Sink | null = null;
+let consoleSink: Sink | null = null;
+let jsonSink: (Sink & { stream: WriteStream }) | null = null;
+
 // Actual debug logger implementation:
-let _log: Log, _logStream: LogStream;
 if (logEnabled) {
-  ({ log: _log, logStream: _logStream } = createLogger());
+  const { log: queueEntry, logStream } = createLogger();
+  fileSink = { level: "trace", write: queueEntry };
 
   try {
     let logPath;
@@ -41,9 +72,8 @@ if (logEnabled) {
       console.log(c.red(`Creating debug logger at ${logPath}`));
       await logWriter(""); // touch
 
-      for await (const { type, message } of _logStream()) {
-        const time = new Date().toISOString().slice(11, 23);
-        const prefix = c.bold(`${time} ${type}:`);
+      for await (const { time, level, type, message } of logStream()) {
+        const prefix = c.bold(`${time.slice(11, 23)} ${level} ${type}:`);
         await logWriter(`${prefix} ${message}\n`);
       }
     })();
@@ -52,19 +82,137 @@ if (logEnabled) {
   }
 }
 
-export function log(type: string, message: string) {
-  _log && _log(type, message);
+/**
+ * Configures the sinks of a command, which are the log entries printed to
+ * stderr with "--verbose" or "--debug", and the JSON lines log file.
+ */
+export function configureLogger({ level, file }: LoggerOptions) {
+  // Reported messages are already printed, so they aren't printed again:
+  consoleSink = level
+    ? { level, write: (entry) => entry.type !== "report" && printEntry(entry) }
+    : null;
+
+  if (jsonSink && jsonSink.stream.path !== file) {
+    jsonSink.stream.end();
+    jsonSink = null;
+  }
+  if (file && !jsonSink) {
+    const stream = createWriteStream(file, { flags: "a" });
+    jsonSink = {
+      level: "trace",
+      stream,
+      write: (entry) => stream.write(`${JSON.stringify(entry)}\n`),
+    };
+  }
+}
+
+// Whether any sink records log entries of the given level:
+export function isLogLevel(level: LogLevel) {
+  return [fileSink, consoleSink, jsonSink].some(
+    (sink) => sink && includesLevel(sink.level, level)
+  );
+}
+
+// Whether log entries are printed to stderr, which spinners would garble:
+export function isConsoleLogging() {
+  return !!consoleSink;
+}
+
+export function log(
+  type: string,
+  message: string,
+  level: LogLevel = "debug",
+  duration?: number
+) {
+  const entry: LogEntry = {
+    time: new Date().toISOString(),
+    level,
+    type,
+    message,
+    ...(duration !== undefined && { duration }),
+  };
+  for (const sink of [fileSink, consoleSink, jsonSink])
+    if (sink && includesLevel(sink.level, level)) sink.write(entry);
 }
 
 export function withType(type: string) {
-  return (message: string) => log(type, message);
+  return (message: string, level?: LogLevel) => log(type, message, level);
+}
+
+// Durations of the spans of the current command, by name:
+let spans = new Map<string, { duration: number; count: number }>();
+
+/**
+ * Times a phase of a command, such as "install" or "trace". Spans are logged
+ * at the info level, and are summarised at the end of verbose commands.
+ */
+export async function span<T>(name: string, fn: () => Promise<T>): Promise<T> {
+  const start = performance.now();
+  try {
+    return await fn();
+  } finally {
+    const duration = Math.round(performance.now() - start);
+    const total = spans.get(name) || { duration: 0, count: 0 };
+    spans.set(name, {
+      duration: total.duration + duration,
+      count: total.count + 1,
+    });
+    log("span", `${name} took ${duration}ms`, "info", duration);
+  }
+}
+
+/**
+ * Prints the total duration of each span since the last summary to stderr,
+ * if log entries are being printed, and resets them.
+ */
+export function printSpanSummary(totalDuration: number) {
+  const summary = spans;
+  spans = new Map();
+  if (!consoleSink || !includesLevel(consoleSink.level, "info")) return;
+
+  const rows: [string, string][] = [...summary].map(
+    ([name, { duration, count }]) => [
+      count > 1 ? `${name} (${count}×)` : name,
+      `${duration}ms`,
+    ]
+  );
+  rows.push(["total", `${Math.round(totalDuration)}ms`]);
+  const nameWidth = Math.max(...rows.map(([name]) => name.length));
+  const durationWidth = Math.max(
+    ...rows.map(([, duration]) => duration.length)
+  );
+  console.warn(c.bold("Timings:"));
+  for (const [name, duration] of rows)
+    console.warn(
+      `  ${name.padEnd(nameWidth)}  ${duration.padStart(durationWidth)}`
+    );
+}
+
+function includesLevel(sinkLevel: LogLevel, level: LogLevel) {
+  return logLevels.indexOf(level) <= logLevels.indexOf(sinkLevel);
+}
+
+const levelColors: Record<LogLevel, (text: string) => string> = {
+  error: c.red,
+  warn: c.yellow,
+  info: c.cyan,
+  debug: c.magenta,
+  trace: c.dim,
+};
+
+function printEntry({ time, level, type, message }: LogEntry) {
+  console.warn(
+    `${c.dim(time.slice(11, 23))} ${levelColors[level](level)} ${c.dim(
+      `${type}:`
+    )} ${message}`
+  );
 }
 
 // Actual logger implementation, ripped from the generator:
 function createLogger() {
   let resolveQueue: () => void;
   let queuePromise = new Promise<void>((resolve) => (resolveQueue = resolve));
-  let queue: { type: string; message: string }[] = [];
+  let queue: LogEntry[] = [];
 
   const logStream = async function* () {
     while (true) {
@@ -73,11 +221,11 @@ function createLogger() {
     }
   };
 
-  function log(type: string, message: string) {
+  function log(entry: LogEntry) {
     if (queue.length) {
-      queue.push({ type, message });
+      queue.push(entry);
     } else {
-      queue = [{ type, message }];
+      queue = [entry];
       const _resolveQueue = resolveQueue;
       queuePromise = new Promise<void>((resolve) => (resolveQueue = resolve));
       _resolveQueue();
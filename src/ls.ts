@@ -0,0 +1,167 @@
+import path from "path";
+import c from "picocolors";
+import { withConfig } from "./config";
+import { JspmError } from "./errors";
+import { type GraphEdge, type GraphNode, nodeLabel, traceGraph } from "./graph";
+import { span, withType } from "./logger";
+import { reportResult, reportWarning } from "./report";
+import type { Flags } from "./types";
+import {
+  getEnv,
+  getGenerator,
+  getInput,
+  getInputPath,
+  parsePackageSpec,
+  startSpinner,
+  stopSpinner,
+} from "./utils";
+
+export interface TreeEntry {
+  specifier: string;
+  name: string;
+  version?: string;
+  registry?: string;
+  provider?: string;
+  url: string;
+
+  // Set when the dependencies of the package are listed elsewhere in the
+  // tree already, in which case they are omitted:
+  deduped?: boolean;
+  dependencies?: TreeEntry[];
+}
+
+export default async function ls(packages: string[], flags: Flags) {
+  const log = withType("ls/ls");
+
+  log(`Listing packages: ${packages.join(", ")}`);
+  flags = await withConfig("ls", flags);
+  log(`Flags: ${JSON.stringify(flags)}`);
+
+  const depth = getDepth(flags);
+  const input = await getInput(flags);
+  const mapFileRel = path.relative(process.cwd(), getInputPath(flags));
+  if (!input) {
+    !flags.silent &&
+      reportWarning(
+        "WARN_NOTHING_TO_LIST",
+        `Nothing to list, ${mapFileRel} does not exist or is empty.`
+      );
+    return [];
+  }
+
+  const env = await getEnv(flags);
+  const generator = await getGenerator(flags);
+  const pins = await span("input parse", () => generator.addMappings(input));
+
+  log(`Input map parsed: ${input}`);
+
+  !flags.silent &&
+    !flags.json &&
+    startSpinner(`Tracing ${c.bold(mapFileRel)}. (${env.join(", ")})`);
+  const graph = await traceGraph(generator, pins);
+  stopSpinner();
+
+  const tree = buildTree(graph.roots, packages, depth);
+  if (flags.json) {
+    reportResult({ map: mapFileRel, env, imports: tree });
+  } else if (!flags.silent) {
+    console.log(`${c.bold(mapFileRel)} ${c.dim(`(${env.join(", ")})`)}`);
+    printTree(tree, "");
+  }
+  if (!tree.length && packages.length && !flags.silent)
+    reportWarning(
+      "WARN_NO_MATCHING_PACKAGES",
+      `No packages matching ${c.bold(
+        packages.join(", ")
+      )} found in ${mapFileRel}.`
+    );
+
+  return tree;
+}
+
+function getDepth(flags: Flags): number {
+  if (flags.depth === undefined) return Infinity;
+  const depth = Number(flags.depth);
+  if (!Number.isInteger(depth) || depth < 0)
+    throw new JspmError(
+      `Invalid depth "${flags.depth}", expected a non-negative integer.`
+    );
+  return depth;
+}
+
+/**
+ * Builds the tree of dependencies under the given top-level imports. When
+ * packages are given, only the branches that lead to one of them are kept.
+ */
+export function buildTree(
+  roots: GraphEdge[],
+  packages: string[] = [],
+  depth = Infinity
+): TreeEntry[] {
+  const filters = packages.map((pkg) => {
+    const name = parsePackageSpec(pkg);
+    const version = pkg.slice(name.length + 1) || undefined;
+    return (node: GraphNode) =>
+      node.name === name && (!version || node.version === version);
+  });
+
+  // Whether the given node or any of its dependencies match the filters:
+  const matches = new Map<GraphNode, boolean>();
+  const isMatch = (node: GraphNode): boolean => {
+    if (!filters.length) return true;
+    if (matches.has(node)) return matches.get(node);
+    matches.set(node, false); // guards against cycles
+    const match =
+      filters.some((filter) => filter(node)) ||
+      node.deps.some((dep) => isMatch(dep.node));
+    matches.set(node, match);
+    return match;
+  };
+
+  const expanded = new Set<GraphNode>();
+  const build = (edge: GraphEdge, level: number): TreeEntry => {
+    const { node } = edge;
+    const entry: TreeEntry = {
+      specifier: edge.specifier,
+      name: node.name,
+      version: node.version,
+      registry: node.registry,
+      provider: node.provider,
+      url: node.url,
+    };
+
+    const deps = node.deps.filter((dep) => isMatch(dep.node));
+    if (!deps.length || level >= depth) return entry;
+    if (expanded.has(node)) {
+      entry.deduped = true;
+      return entry;
+    }
+
+    expanded.add(node);
+    entry.dependencies = deps.map((dep) => build(dep, level + 1));
+    return entry;
+  };
+
+  return roots
+    .filter((root) => isMatch(root.node))
+    .map((root) => build(root, 0));
+}
+
+function printTree(entries: TreeEntry[], indent: string, topLevel = true) {
+  entries.forEach((entry, i) => {
+    const last = i === entries.length - 1;
+    let label = nodeLabel(entry);
+    if (topLevel && entry.specifier !== entry.name)
+      label = `${entry.specifier} ${c.dim("→")} ${label}`;
+    if (entry.provider) label += ` ${c.dim(`(${entry.provider})`)}`;
+    if (entry.deduped) label += ` ${c.dim("deduped")}`;
+
+    console.log(`${indent}${last ? "└── " : "├── "}${label}`);
+    if (entry.dependencies)
+      printTree(
+        entry.dependencies,
+        `${indent}${last ? "    " : "│   "}`,
+        false
+      );
+  });
+}
@@ -0,0 +1,376 @@
+import path from "path";
+import { pathToFileURL } from "url";
+import c from "picocolors";
+import { Semver, SemverRange } from "sver";
+import type { Generator } from "@jspm/generator";
+import { withConfig } from "./config";
+import { JspmError, ResolutionConflictError, didYouMean } from "./errors";
+import { withType } from "./logger";
+import { reportNote, reportOk, reportResult, reportWarning } from "./report";
+import type { Flags, IImportMapJspm } from "./types";
+import {
+  getEnv,
+  getGenerator,
+  getInput,
+  getInputMap,
+  startSpinner,
+  stopSpinner,
+  writeOutput,
+} from "./utils";
+
+// Strategies for mappings that the maps disagree on, the first of which is
+// the default:
+export const mergeStrategies = [
+  "fail",
+  "prefer-first",
+  "prefer-latest",
+  "scope-isolate",
+];
+
+export interface MergeConflict {
+  // The scope of the conflicting mappings, or null for the top-level imports:
+  scope: string | null;
+  specifier: string;
+
+  // Mappings to versions of the same package that aren't compatible, or to
+  // different modules altogether:
+  kind: "incompatible-versions" | "different-targets";
+  mappings: { map: string; url: string }[];
+
+  // The mapping that was kept, and the maps that were isolated in scopes of
+  // their own with the "scope-isolate" strategy:
+  resolved: string | null;
+  isolated: string[];
+}
+
+export interface MergeResult {
+  maps: string[];
+  env: string[];
+  conflicts: MergeConflict[];
+
+  // Mappings to compatible versions of a package, which are always merged to
+  // the highest of them:
+  upgraded: { scope: string | null; specifier: string; url: string }[];
+}
+
+interface InputMap {
+  file: string;
+  fileRel: string;
+  map: IImportMapJspm;
+}
+
+interface Candidate {
+  map: InputMap;
+  url: string;
+  version?: string;
+  name?: string;
+}
+
+export default async function merge(maps: string[], flags: Flags) {
+  const log = withType("merge/merge");
+
+  flags = await withConfig("merge", flags);
+  log(`Merging maps: ${maps.join(", ")}`);
+  log(`Flags: ${JSON.stringify(flags)}`);
+
+  const strategy = flags.strategy || mergeStrategies[0];
+  if (!mergeStrategies.includes(strategy))
+    throw new JspmError(
+      `Unknown merge strategy "${strategy}". Available strategies are: "${mergeStrategies.join(
+        '", "'
+      )}".`,
+      { hint: didYouMean(strategy, mergeStrategies) }
+    );
+  if (maps.length < 2)
+    throw new JspmError(`At least two import maps are needed to merge.`, {
+      hint: `Run ${c.bold("jspm merge a/importmap.json b/importmap.json")}.`,
+    });
+
+  const inputs = await readInputMaps(maps, flags);
+  const env = await getMergedEnv(inputs, flags);
+
+  !flags.silent &&
+    startSpinner(
+      `Merging ${inputs
+        .map(({ fileRel }) => c.bold(fileRel))
+        .join(", ")}. (${env.join(", ")})`
+    );
+
+  // The maps are only parsed by the generator, so they aren't traced again
+  // and the output map keeps the resolutions of every input map:
+  const generator = await getGenerator(flags, false, false);
+  const outputDir = new URL("./", generator.mapUrl).href;
+  const isolatedScope = (input: InputMap) => {
+    const scope = pathToFileURL(`${path.dirname(input.file)}/`).href;
+    return outputDir.startsWith(scope) ? null : scope;
+  };
+
+  const result: MergeResult = {
+    maps: inputs.map(({ fileRel }) => fileRel),
+    env,
+    conflicts: [],
+    upgraded: [],
+  };
+  const merged: Required<Pick<IImportMapJspm, "imports" | "scopes">> &
+    IImportMapJspm = { imports: {}, scopes: {} };
+  const mappings = collectMappings(inputs, flags);
+  for (const [key, candidates] of mappings) {
+    const [scope, specifier] = JSON.parse(key) as [string | null, string];
+    const target = scope === null ? merged.imports : scopeFor(merged, scope);
+    const urls = new Set(candidates.map(({ url }) => url));
+    if (urls.size === 1) {
+      target[specifier] = candidates[0].url;
+      continue;
+    }
+
+    await parseVersions(generator, candidates);
+    const highest = getHighestCompatible(candidates);
+    if (highest) {
+      log(`${specifier}: merged compatible versions to ${highest.url}`);
+      target[specifier] = highest.url;
+      result.upgraded.push({ scope, specifier, url: highest.url });
+      continue;
+    }
+
+    const conflict: MergeConflict = {
+      scope,
+      specifier,
+      kind:
+        candidates[0].name &&
+        candidates.every(({ name }) => name === candidates[0].name)
+          ? "incompatible-versions"
+          : "different-targets",
+      mappings: candidates.map(({ map, url }) => ({ map: map.fileRel, url })),
+      resolved: null,
+      isolated: [],
+    };
+    result.conflicts.push(conflict);
+    if (strategy === "fail") continue;
+
+    // Later maps are isolated in the scopes of their own directories, which
+    // only works for top-level imports of maps in different directories:
+    const isolated =
+      strategy === "scope-isolate" && scope === null
+        ? candidates.slice(1).filter(({ map }) => isolatedScope(map))
+        : [];
+    const kept =
+      strategy === "prefer-latest"
+        ? getLatest(candidates)
+        : candidates.find((candidate) => !isolated.includes(candidate));
+    conflict.resolved = kept.url;
+    target[specifier] = kept.url;
+    for (const candidate of isolated) {
+      if (candidate.url === kept.url) continue;
+      scopeFor(merged, isolatedScope(candidate.map))[specifier] = candidate.url;
+      conflict.isolated.push(candidate.map.fileRel);
+    }
+  }
+
+  if (strategy === "fail" && result.conflicts.length) {
+    stopSpinner();
+    throw new ResolutionConflictError(
+      `The import maps conflict on ${result.conflicts
+        .map(describeConflict)
+        .join(", ")}.`,
+      {
+        code: "ERR_MERGE_CONFLICT",
+        hint: `Choose how to resolve conflicts with ${c.bold(
+          "--strategy"
+        )}, which can be "${mergeStrategies.slice(1).join('", "')}".`,
+      }
+    );
+  }
+
+  const isolated = result.conflicts
+    .filter((conflict) => conflict.isolated.length)
+    .map(({ specifier }) => specifier);
+  if (isolated.length) keepIsolated(merged, isolated, generator.mapUrl);
+
+  generator.map.extend(merged);
+  stopSpinner();
+
+  if (flags.json) {
+    reportResult(result);
+  } else if (!flags.silent) {
+    reportOk(
+      `Merged ${inputs.length} import maps with the "${strategy}" strategy.`
+    );
+    for (const { specifier, url } of result.upgraded)
+      reportNote(`"${specifier}" was merged to the compatible ${url}.`);
+    for (const conflict of result.conflicts) {
+      reportNote(
+        `${describeConflict(conflict)} was resolved to ${conflict.resolved}${
+          conflict.isolated.length
+            ? `, and isolated for ${conflict.isolated.join(", ")}`
+            : ""
+        }.`
+      );
+      if (strategy === "scope-isolate" && !conflict.isolated.length)
+        reportWarning(
+          "WARN_NOT_ISOLATED",
+          `${describeConflict(
+            conflict
+          )} couldn't be isolated, as it isn't a top-level import of maps in their own directories.`
+        );
+    }
+  }
+
+  await writeOutput(generator, null, env, flags, flags.silent);
+  return result;
+}
+
+async function readInputMaps(maps: string[], flags: Flags) {
+  const inputs: InputMap[] = [];
+  for (const map of maps) {
+    const mapFlags = { ...flags, map, output: undefined };
+    const file = path.resolve(process.cwd(), map);
+    const fileRel = path.relative(process.cwd(), file);
+    if (!(await getInput(mapFlags)))
+      throw new JspmError(
+        `Nothing to merge, ${fileRel} does not exist or is empty.`,
+        { code: "ERR_NO_INPUT_MAP" }
+      );
+    inputs.push({
+      file,
+      fileRel,
+      map: await getInputMap(mapFlags),
+    });
+  }
+  return inputs;
+}
+
+/**
+ * Returns the environment of the merged map. The maps have to agree on the
+ * environment that they were generated for, unless it's set explicitly.
+ */
+async function getMergedEnv(inputs: InputMap[], flags: Flags) {
+  const recorded = inputs.filter(({ map }) => map.env);
+  const envs = new Set(recorded.map(({ map }) => [...map.env].sort().join()));
+  if (envs.size > 1 && !flags.env)
+    throw new ResolutionConflictError(
+      `The import maps were generated for different environments: ${recorded
+        .map(({ fileRel, map }) => `${fileRel} (${map.env.join(", ")})`)
+        .join(", ")}.`,
+      {
+        code: "ERR_ENV_MISMATCH",
+        hint: `Set the environment of the merged map with ${c.bold("--env")}.`,
+      }
+    );
+  return getEnv({ ...flags, map: (recorded[0] || inputs[0]).file });
+}
+
+// Groups the mappings of all of the maps by scope and specifier, with URLs
+// resolved against the maps that they are in:
+function collectMappings(inputs: InputMap[], flags: Flags) {
+  const rootUrl = flags.root
+    ? pathToFileURL(`${path.resolve(process.cwd(), flags.root)}/`)
+    : null;
+  const resolve = (url: string, mapUrl: URL) =>
+    url.startsWith("/") && !url.startsWith("//")
+      ? rootUrl
+        ? new URL(url.slice(1), rootUrl).href
+        : url
+      : new URL(url, mapUrl).href;
+
+  const mappings = new Map<string, Candidate[]>();
+  for (const input of inputs) {
+    const mapUrl = pathToFileURL(input.file);
+    const entries: [string | null, Record<string, string>][] = [
+      [null, input.map.imports || {}],
+      ...Object.entries(input.map.scopes || {}).map(
+        ([scope, scopeMap]) =>
+          [resolve(scope, mapUrl), scopeMap] as [string, Record<string, string>]
+      ),
+    ];
+    for (const [scope, scopeMap] of entries)
+      for (const [specifier, url] of Object.entries(scopeMap)) {
+        if (typeof url !== "string") continue;
+        const id = JSON.stringify([scope, specifier]);
+        if (!mappings.has(id)) mappings.set(id, []);
+        mappings.get(id).push({ map: input, url: resolve(url, mapUrl) });
+      }
+  }
+
+  // Mappings that are the same in several maps only need to be kept once:
+  for (const candidates of mappings.values())
+    for (let i = candidates.length - 1; i > 0; i--)
+      if (candidates.slice(0, i).some(({ url }) => url === candidates[i].url))
+        candidates.splice(i, 1);
+  return mappings;
+}
+
+function scopeFor(map: IImportMapJspm, scope: string) {
+  return (map.scopes[scope] ??= {});
+}
+
+/**
+ * Flattening the map moves scoped mappings into the scope of the common base
+ * of the local scopes when that scope doesn't map the same specifier, which
+ * would apply isolated mappings to the modules of other maps. Moving the
+ * top-level mappings of isolated specifiers into that scope keeps them in
+ * place, as mappings in a scope that are the same as the top-level ones would
+ * be flattened away first.
+ */
+function keepIsolated(map: IImportMapJspm, specifiers: string[], mapUrl: URL) {
+  const local = Object.keys(map.scopes).filter((scope) => {
+    const scopeUrl = new URL(scope, mapUrl);
+    return (
+      scopeUrl.protocol === mapUrl.protocol && scopeUrl.host === mapUrl.host
+    );
+  });
+  if (local.length < 2) return;
+  let base = local[0];
+  for (const scope of local)
+    while (!scope.startsWith(base))
+      base = base.slice(0, base.lastIndexOf("/", base.length - 2) + 1);
+
+  const baseScope = scopeFor(map, base);
+  for (const specifier of specifiers) {
+    if (specifier in baseScope) continue;
+    baseScope[specifier] = map.imports[specifier];
+    delete map.imports[specifier];
+  }
+}
+
+// Parses the package names and versions of the mapped URLs, for the URLs of
+// providers that have them:
+async function parseVersions(generator: Generator, candidates: Candidate[]) {
+  const { resolver } = generator.traceMap;
+  for (const candidate of candidates) {
+    const parsed = await resolver.parseUrlPkg(candidate.url);
+    if (!parsed || !Semver.isValid(parsed.pkg.version)) continue;
+    candidate.name = `${parsed.pkg.registry}:${parsed.pkg.name}`;
+    candidate.version = parsed.pkg.version;
+  }
+}
+
+// The highest of several versions of the same package, if all of them are in
+// the caret range of the lowest:
+function getHighestCompatible(candidates: Candidate[]): Candidate | null {
+  const [lowest, ...others] = [...candidates].sort(compareCandidates);
+  if (!lowest.version || others.some(({ name }) => name !== lowest.name))
+    return null;
+  const range = new SemverRange(`^${lowest.version}`);
+  if (!others.every(({ version }) => range.has(version))) return null;
+  return others[others.length - 1];
+}
+
+// The highest version, or the mapping of the last map for mappings that
+// aren't versions of the same package:
+function getLatest(candidates: Candidate[]): Candidate {
+  if (candidates.some(({ name }) => !name || name !== candidates[0].name))
+    return candidates[candidates.length - 1];
+  return [...candidates].sort(compareCandidates).pop();
+}
+
+function compareCandidates(a: Candidate, b: Candidate) {
+  if (!a.version || !b.version) return 0;
+  return Semver.compare(a.version, b.version);
+}
+
+function describeConflict({ scope, specifier, kind }: MergeConflict) {
+  const versions = kind === "incompatible-versions" ? " (incompatible)" : "";
+  return scope
+    ? `"${specifier}" in scope ${scope}${versions}`
+    : `"${specifier}"${versions}`;
+}
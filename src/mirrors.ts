@@ -0,0 +1,254 @@
+import { type Provider, analyzeHtml } from "@jspm/generator";
+import c from "picocolors";
+import { JspmError, ProviderError } from "./errors";
+import { expandTemplate, fetchEndpoint, templateRegEx } from "./providers";
+import type { Flags, IImportMapJspm } from "./types";
+
+// URL layouts of the built-in providers that can be mirrored, relative to the
+// root URL of their CDN:
+const mirrorableProviders = {
+  "jspm.io": {
+    cdnUrl: "https://ga.jspm.io/",
+    packagePath: "{registry}:{name}@{version}/",
+  },
+  unpkg: { cdnUrl: "https://unpkg.com/", packagePath: "{name}@{version}/" },
+  jsdelivr: {
+    cdnUrl: "https://cdn.jsdelivr.net/",
+    packagePath: "{registry}/{name}@{version}/",
+  },
+  "esm.sh": { cdnUrl: "https://esm.sh/", packagePath: "*{name}@{version}/" },
+  skypack: {
+    cdnUrl: "https://cdn.skypack.dev/",
+    packagePath: "{name}@{version}/",
+  },
+};
+
+// Returns the mirror URLs in the flags, keyed by the name of the provider
+// they mirror. Mirrors are given as "provider=url" pairs, such as
+// "jspm.io=https://mirror.example.com/ga.jspm.io/":
+function getMirrors(flags: Flags): Record<string, string> {
+  if (!flags.registryMirror) return {};
+  const mirrors = Array.isArray(flags.registryMirror)
+    ? flags.registryMirror
+    : flags.registryMirror.split(",").map((m) => m.trim());
+
+  return Object.fromEntries(
+    mirrors.map((mirror) => {
+      const [provider, url] = mirror.split(/=(.*)/s);
+      if (!url)
+        throw new JspmError(
+          `Registry mirrors must be mappings from providers to mirror URLs, such as ${c.bold(
+            "--registry-mirror jspm.io=https://mirror.example.com/ga.jspm.io/"
+          )}`
+        );
+      if (!(provider in mirrorableProviders))
+        throw new JspmError(
+          `Cannot mirror provider "${provider}". Mirrorable providers are: "${Object.keys(
+            mirrorableProviders
+          ).join('", "')}".`
+        );
+      if (!/^https?:\/\//.test(url))
+        throw new JspmError(
+          `Invalid mirror URL "${url}" for provider "${provider}", expected an http or https URL.`
+        );
+      return [provider, url.endsWith("/") ? url : `${url}/`];
+    })
+  );
+}
+
+/**
+ * Creates the generator providers for the mirrored providers in the flags,
+ * which replace the built-in providers of the same names. Packages resolve
+ * to URLs on the mirrors, and versions are looked up on the jspm.io mirror
+ * when there is one, as all of the built-in providers use jspm.io for that.
+ */
+export function getMirrorProviders(flags: Flags): Record<string, Provider> {
+  const mirrors = getMirrors(flags);
+  const lookupUrl = mirrors["jspm.io"] || mirrorableProviders["jspm.io"].cdnUrl;
+  return Object.fromEntries(
+    Object.entries(mirrors).map(([provider, mirrorUrl]) => [
+      provider,
+      createMirrorProvider(provider, mirrorUrl, lookupUrl),
+    ])
+  );
+}
+
+/**
+ * Rewrites the canonical CDN URLs in a source to the URLs of their mirrors,
+ * so that input maps can be resolved against the mirrors.
+ */
+export function toMirrorUrls(source: string, flags: Flags): string {
+  for (const [provider, mirrorUrl] of Object.entries(getMirrors(flags))) {
+    const { cdnUrl } = mirrorableProviders[provider];
+    // Scopes for the root of a CDN are flattened scopes, which the generator
+    // only recognises at the root of an origin:
+    source = source.replaceAll(
+      JSON.stringify(cdnUrl),
+      JSON.stringify(new URL("/", mirrorUrl).href)
+    );
+    source = source.replaceAll(cdnUrl, mirrorUrl);
+  }
+  return source;
+}
+
+/**
+ * Rewrites the mirror URLs in an import map back to the canonical CDN URLs,
+ * so that mirrors don't leak into output maps. Mirror URLs are kept with the
+ * "--mirror-urls" flag.
+ */
+export function toCanonicalMap(
+  map: IImportMapJspm,
+  flags: Flags
+): IImportMapJspm {
+  if (flags.mirrorUrls || !flags.registryMirror) return map;
+  const mirrors = getMirrors(flags);
+  const { scopes, ...rest } = map;
+  const canonicalMap: IImportMapJspm = JSON.parse(
+    toCanonicalUrls(JSON.stringify(rest), mirrors)
+  );
+  if (!scopes) return canonicalMap;
+
+  canonicalMap.scopes = {};
+  for (const [scope, mappings] of Object.entries(scopes)) {
+    // The generator flattens the scopes of packages to the origin of their
+    // CDN, which for a mirror can be a parent of the mirror URL:
+    const parentOf = Object.keys(mirrors).filter(
+      (provider) =>
+        mirrors[provider].startsWith(scope) && mirrors[provider] !== scope
+    );
+    const canonicalScopes = parentOf.length
+      ? parentOf.map((provider) => mirrorableProviders[provider].cdnUrl)
+      : [toCanonicalUrls(scope, mirrors)];
+    const canonicalMappings = JSON.parse(
+      toCanonicalUrls(JSON.stringify(mappings), mirrors)
+    );
+    for (const canonicalScope of canonicalScopes)
+      canonicalMap.scopes[canonicalScope] = {
+        ...canonicalMap.scopes[canonicalScope],
+        ...canonicalMappings,
+      };
+  }
+  return canonicalMap;
+}
+
+/**
+ * Rewrites the mirror URLs in an HTML file back to the canonical CDN URLs,
+ * including those of the import map and of the module preloads.
+ */
+export function toCanonicalHtml(
+  html: string,
+  htmlUrl: URL,
+  flags: Flags
+): string {
+  if (flags.mirrorUrls || !flags.registryMirror) return html;
+
+  // The import map is replaced in the format that it was injected in:
+  const { map, newlineTab } = analyzeHtml(html, htmlUrl);
+  if (map.json) {
+    const serialize = (json: IImportMapJspm) =>
+      JSON.stringify(json, null, flags.compact ? 0 : 2).replace(
+        /\n/g,
+        newlineTab
+      );
+    html = html.replace(
+      serialize(map.json),
+      serialize(toCanonicalMap(map.json, flags))
+    );
+  }
+  return toCanonicalUrls(html, getMirrors(flags));
+}
+
+function createMirrorProvider(
+  providerName: string,
+  mirrorUrl: string,
+  lookupUrl: string
+): Provider {
+  const packageUrl = mirrorUrl + mirrorableProviders[providerName].packagePath;
+  const packageUrlRegEx = templateRegEx(packageUrl);
+
+  const provider: Provider = {
+    async pkgToUrl(pkg, layer) {
+      if (layer && layer !== "default")
+        throw new ProviderError(
+          `The ${c.bold(providerName)} mirror only supports the default layer.`
+        );
+      return expandTemplate(packageUrl, pkg) as `${string}/`;
+    },
+
+    parseUrlPkg(url) {
+      const match = url.match(packageUrlRegEx);
+      if (!match?.groups) return null;
+      return {
+        registry: match.groups.registry ?? "npm",
+        name: match.groups.name,
+        version: match.groups.version,
+      };
+    },
+
+    async resolveLatestTarget(target) {
+      return lookupVersion(lookupUrl, target, this.fetchOpts);
+    },
+  };
+
+  // esm.sh serves modules on their export subpaths rather than their file
+  // paths, so the exports of its packages map to themselves:
+  if (providerName === "esm.sh")
+    provider.getPackageConfig = async function (pkgUrl) {
+      const source = await fetchEndpoint(
+        `${pkgUrl}package.json`,
+        this.fetchOpts
+      );
+      if (source === null) return null;
+      const pcfg = JSON.parse(source);
+      for (const field of ["exports", "imports"]) {
+        if (typeof pcfg[field] !== "object" || pcfg[field] === null) continue;
+        for (const key of Object.keys(pcfg[field])) pcfg[field][key] = key;
+      }
+      return pcfg;
+    };
+
+  return provider;
+}
+
+// Resolves a version range with the lookup protocol of jspm.io, where a URL
+// such as "npm:lit@2" responds with the latest version of lit 2 in plain
+// text. Only wildcards, tags, major ranges and minor ranges can be looked up:
+async function lookupVersion(
+  lookupUrl: string,
+  { registry, name, range, unstable },
+  fetchOpts: RequestInit
+) {
+  if (range.isExact && !range.version.tag)
+    return { registry, name, version: range.version.toString() };
+
+  const lookup = async (version: string) => {
+    const url = `${lookupUrl}${registry}:${name}${
+      version ? `@${version}` : unstable ? "@" : ""
+    }`;
+    const source = await fetchEndpoint(url, fetchOpts);
+    if (source === null) return null;
+    return { registry, name, version: source.trim() };
+  };
+
+  if (range.isWildcard || (range.isExact && range.version.tag === "latest"))
+    return lookup("");
+  if (range.isExact) return lookup(range.version.tag);
+  if (range.isMajor) {
+    const latest = await lookup(`${range.version.major}`);
+    // The latest version of a major can be older than the range, in which
+    // case we fall back to the latest version of the minor:
+    if (!latest || !range.version.gt(latest.version)) return latest;
+  }
+  if (range.isMajor || range.isStable)
+    return lookup(`${range.version.major}.${range.version.minor}`);
+  return null;
+}
+
+function toCanonicalUrls(
+  source: string,
+  mirrors: Record<string, string>
+): string {
+  for (const [provider, mirrorUrl] of Object.entries(mirrors))
+    source = source.replaceAll(mirrorUrl, mirrorableProviders[provider].cdnUrl);
+  return source;
+}
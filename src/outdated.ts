@@ -0,0 +1,230 @@
+import path from "path";
+import c from "picocolors";
+import { Semver } from "sver";
+import type { Generator } from "@jspm/generator";
+import { withConfig } from "./config";
+import { parseRange } from "./dependencies";
+import { ProviderError } from "./errors";
+import { withType } from "./logger";
+import { reportOk, reportResult } from "./report";
+import type { Flags } from "./types";
+import {
+  getGenerator,
+  getInputMap,
+  getInputPath,
+  parsePackageSpec,
+  startSpinner,
+  stopSpinner,
+} from "./utils";
+
+export interface OutdatedEntry {
+  name: string;
+  registry: string;
+  provider: string;
+  current: string;
+  wanted: string;
+  latest: string;
+
+  // The ranges for this copy of the package, as declared by the local
+  // package.json and the other packages in the map:
+  ranges: string[];
+}
+
+interface MapPackage {
+  pkg: { registry: string; name: string; version: string };
+  source: { provider: string; layer: string };
+}
+
+export default async function outdated(packages: string[], flags: Flags) {
+  const log = withType("outdated/outdated");
+
+  log(`Checking packages: ${packages.join(", ")}`);
+  flags = await withConfig("outdated", flags);
+  log(`Flags: ${JSON.stringify(flags)}`);
+
+  const inputMap = await getInputMap(flags);
+  const generator = await getGenerator(flags);
+  const mapFileRel = path.relative(process.cwd(), getInputPath(flags));
+
+  !flags.silent &&
+    !flags.json &&
+    startSpinner(`Checking ${c.bold(mapFileRel)} for outdated packages.`);
+
+  // Collect the packages of every URL in the map, skipping local modules and
+  // "nodemodules" installs, which have no versions to compare against:
+  const { resolver } = generator.traceMap;
+  const mapPackages = new Map<string, MapPackage>();
+  const urls = [
+    ...Object.values(inputMap.imports || {}),
+    ...Object.values(inputMap.scopes || {}).flatMap((scope) =>
+      Object.values(scope)
+    ),
+  ];
+  for (const url of urls) {
+    const parsed = await resolver.parseUrlPkg(
+      new URL(url, generator.mapUrl).href
+    );
+    if (!parsed || parsed.pkg.registry === "node_modules") continue;
+
+    const { pkg, source } = parsed;
+    if (
+      packages.length &&
+      !packages.some((p) => parsePackageSpec(p) === pkg.name)
+    )
+      continue;
+    mapPackages.set(`${pkg.registry}:${pkg.name}@${pkg.version}`, {
+      pkg,
+      source,
+    });
+  }
+
+  const ranges = await getDeclaredRanges(generator, [...mapPackages.values()]);
+  const entries: OutdatedEntry[] = [];
+  await Promise.all(
+    [...mapPackages.values()].map(async ({ pkg, source }) => {
+      // Ranges that the current version doesn't satisfy were declared for a
+      // different copy of the package:
+      const copyRanges = (ranges.get(pkg.name) || []).filter((range) =>
+        parseRange(range)?.some((r) => r.has(pkg.version))
+      );
+
+      const latest = await resolveLatest(generator, pkg, source, ["*"]);
+      const wanted = copyRanges.length
+        ? await resolveLatest(generator, pkg, source, copyRanges)
+        : latest;
+
+      log(
+        `${pkg.name}@${pkg.version}: wanted ${wanted} (${copyRanges.join(
+          ", "
+        )}), latest ${latest}`
+      );
+      if (pkg.version === wanted && pkg.version === latest) return;
+      entries.push({
+        name: pkg.name,
+        registry: pkg.registry,
+        provider: source.provider,
+        current: pkg.version,
+        wanted,
+        latest,
+        ranges: copyRanges,
+      });
+    })
+  );
+  stopSpinner();
+
+  entries.sort((a, b) =>
+    a.name === b.name
+      ? Semver.compare(a.current, b.current)
+      : a.name.localeCompare(b.name)
+  );
+
+  // Like "npm outdated", we exit with a non-zero code if anything is
+  // outdated, so this can be used as a check in CI:
+  if (entries.length) process.exitCode = 1;
+
+  if (flags.json) {
+    reportResult(entries);
+  } else if (!flags.silent) {
+    if (entries.length) printTable(entries);
+    else reportOk(`All packages in ${c.cyan(mapFileRel)} are up to date.`);
+  }
+
+  return entries;
+}
+
+/**
+ * Collects the version ranges declared for each package name, by both the
+ * local package.json and the package.json files of the given packages.
+ */
+async function getDeclaredRanges(
+  generator: Generator,
+  mapPackages: MapPackage[]
+): Promise<Map<string, string[]>> {
+  const { resolver } = generator.traceMap;
+  const names = new Set(mapPackages.map(({ pkg }) => pkg.name));
+  const ranges = new Map<string, string[]>();
+  const addRanges = (deps: Record<string, string> | undefined) => {
+    for (const [name, range] of Object.entries(deps || {})) {
+      if (!names.has(name) || !parseRange(range)) continue;
+      if (!ranges.has(name)) ranges.set(name, []);
+      if (!ranges.get(name).includes(range)) ranges.get(name).push(range);
+    }
+  };
+
+  const pkgUrls = await Promise.all([
+    resolver.getPackageBase(generator.baseUrl.href),
+    ...mapPackages.map(({ pkg, source }) => resolver.pkgToUrl(pkg, source)),
+  ]);
+  for (const pkgUrl of pkgUrls) {
+    const pcfg = await resolver.getPackageConfig(pkgUrl);
+    addRanges(pcfg?.dependencies);
+    addRanges(pcfg?.peerDependencies);
+    addRanges(pcfg?.optionalDependencies);
+    if (pkgUrl === pkgUrls[0]) addRanges(pcfg?.devDependencies);
+  }
+
+  return ranges;
+}
+
+/**
+ * Resolves the lowest of the latest versions that match each of the given
+ * ranges, which is the newest version that satisfies all of them when the
+ * ranges overlap.
+ */
+async function resolveLatest(
+  generator: Generator,
+  pkg: MapPackage["pkg"],
+  source: MapPackage["source"],
+  ranges: string[]
+): Promise<string> {
+  const versions = await Promise.all(
+    ranges.map(async (range) => {
+      const resolved = await generator.traceMap.resolver.resolveLatestTarget(
+        {
+          registry: pkg.registry,
+          name: pkg.name,
+          ranges: parseRange(range),
+          unstable: false,
+        },
+        source,
+        generator.baseUrl.href
+      );
+      if (!resolved)
+        throw new ProviderError(
+          `No version of ${pkg.registry}:${
+            pkg.name
+          } matching "${range}" was found on provider ${c.bold(
+            source.provider
+          )}.`
+        );
+      return resolved.version;
+    })
+  );
+  return versions.sort(Semver.compare)[0];
+}
+
+function printTable(entries: OutdatedEntry[]) {
+  const rows = [
+    ["Package", "Current", "Wanted", "Latest", "Provider"],
+    ...entries.map((entry) => [
+      entry.registry === "npm" ? entry.name : `${entry.registry}:${entry.name}`,
+      entry.current,
+      entry.wanted,
+      entry.latest,
+      entry.provider,
+    ]),
+  ];
+  const widths = rows[0].map((_, i) =>
+    Math.max(...rows.map((row) => row[i].length))
+  );
+
+  rows.forEach((row, i) => {
+    const line = row.map((cell, j) => cell.padEnd(widths[j])).join("  ");
+    if (i === 0) return console.log(c.underline(line));
+
+    // Red for packages that can be updated within their ranges, yellow for
+    // packages that need a range change to reach the latest version:
+    const { current, wanted } = entries[i - 1];
+    console.log(current !== wanted ? c.red(line) : c.yellow(line));
+  });
+}
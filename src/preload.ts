@@ -0,0 +1,306 @@
+import fs from "fs/promises";
+import path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import { type Generator, analyzeHtml } from "@jspm/generator";
+import c from "picocolors";
+import { fetchSource, getIntegrity } from "./download";
+import { JspmError, PermissionError, didYouMean } from "./errors";
+import { resolve } from "./graph";
+import { withType } from "./logger";
+import { reportOk } from "./report";
+import type { Flags } from "./types";
+
+/**
+ * Strategies for the modules to preload, which are set with
+ * "--preload-strategy":
+ *
+ *   - "static" preloads the static module graph of the imports, which is
+ *     also the strategy of "--preload"
+ *   - "all" also preloads the dynamic imports of the graph
+ *   - "none" removes all preloads
+ *   - "depth=<n>" preloads the static imports up to n levels below the
+ *     top-level imports, with "depth=0" preloading only the imports
+ *   - any other value is a comma-separated list of the specifiers or module
+ *     paths to preload, such as "lit,./app.js"
+ */
+export const preloadStrategies = ["static", "all", "none", "depth=<n>"];
+
+export type PreloadStrategy =
+  | { kind: "static" | "all" | "none" }
+  | { kind: "depth"; depth: number }
+  | { kind: "entries"; entries: string[] };
+
+export interface Preload {
+  // Absolute URL of the preloaded module:
+  url: string;
+  integrity?: string;
+}
+
+// Returns the preload strategy of the flags, or null when nothing should be
+// preloaded:
+export function getPreloadStrategy(flags: Flags): PreloadStrategy | null {
+  const strategy = flags.preloadStrategy;
+  if (!strategy)
+    return flags.preload || flags.preloadOutput ? { kind: "static" } : null;
+  if (strategy === "static") return { kind: "static" };
+  if (strategy === "all" || strategy === "none") return { kind: strategy };
+
+  const depth = /^depth=(\d+)$/.exec(strategy)?.[1];
+  if (depth !== undefined) return { kind: "depth", depth: Number(depth) };
+  return {
+    kind: "entries",
+    entries: strategy
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean),
+  };
+}
+
+/**
+ * Returns the modules to preload for the given pins with a strategy, sorted
+ * by URL. Integrities are included with the "--integrity" flag.
+ */
+export async function getPreloads(
+  generator: Generator,
+  pins: string[] | true,
+  strategy: PreloadStrategy,
+  flags: Flags
+): Promise<Preload[]> {
+  const log = withType("preload/getPreloads");
+  const modules = pins === true ? generator.traceMap.pins : pins;
+
+  let urls: string[] = [];
+  if (strategy.kind !== "none") {
+    const { staticDeps, dynamicDeps } = await generator.extractMap(modules);
+    if (strategy.kind === "static") urls = staticDeps;
+    else if (strategy.kind === "all") urls = [...staticDeps, ...dynamicDeps];
+    else if (strategy.kind === "depth")
+      urls = getStaticDepsToDepth(generator, modules, strategy.depth).filter(
+        (url) => staticDeps.includes(url)
+      );
+    else if (strategy.kind === "entries")
+      urls = resolveEntries(generator, modules, strategy.entries);
+  }
+  urls = [...new Set(urls)].sort();
+  log(`Preloads for ${JSON.stringify(strategy)}: ${urls.join(", ")}`);
+
+  if (!flags.integrity) return urls.map((url) => ({ url }));
+  return Promise.all(
+    urls.map(async (url) => ({
+      url,
+      integrity: getIntegrity(await fetchSource(generator, url)),
+    }))
+  );
+}
+
+// Walks the static imports of the traced modules breadth-first:
+function getStaticDepsToDepth(
+  generator: Generator,
+  modules: string[],
+  depth: number
+): string[] {
+  const { tracedUrls } = generator.traceMap;
+  let level = modules
+    .map((pin) => resolve(generator, pin, generator.baseUrl.href))
+    .filter(Boolean);
+  const visited = new Set(level);
+  for (let i = 0; i < depth && level.length; i++) {
+    level = level
+      .flatMap((url) =>
+        (tracedUrls[url]?.deps || []).map((dep) => resolve(generator, dep, url))
+      )
+      .filter((url) => url && !visited.has(url));
+    for (const url of level) visited.add(url);
+  }
+  return [...visited];
+}
+
+function resolveEntries(
+  generator: Generator,
+  modules: string[],
+  entries: string[]
+): string[] {
+  return entries.map((entry) => {
+    const url = resolve(generator, entry, generator.baseUrl.href);
+    if (!url)
+      throw new JspmError(
+        `Unable to preload "${entry}", which isn't a preload strategy or a module of the import map.`,
+        {
+          code: "ERR_INVALID_PRELOAD",
+          hint:
+            didYouMean(entry, [...preloadStrategies, ...modules]) ??
+            `Use one of the strategies ${preloadStrategies
+              .map((s) => `"${s}"`)
+              .join(", ")}, or a list of modules to preload.`,
+        }
+      );
+    return url;
+  });
+}
+
+/**
+ * Replaces the module preloads of an HTML source, which go after its import
+ * map in the way that the generator injects them.
+ */
+export function setHtmlPreloads(
+  html: string,
+  preloads: Preload[],
+  htmlUrl: URL,
+  rootUrl: URL | null,
+  whitespace: boolean
+): string {
+  const analysis = analyzeHtml(html, htmlUrl);
+  const newlineTab = whitespace
+    ? analysis.newlineTab.includes("\n")
+      ? analysis.newlineTab
+      : `\n${analysis.newlineTab}`
+    : analysis.newlineTab;
+
+  const tags = preloads
+    .map(
+      ({ url, integrity }, i) =>
+        `${
+          i === 0 || whitespace ? newlineTab : ""
+        }<link rel="modulepreload" href="${relativeUrl(
+          url,
+          rootUrl ?? htmlUrl,
+          !!rootUrl
+        )}"${integrity ? ` integrity="${integrity}"` : ""} />`
+    )
+    .join("");
+
+  // Existing preloads are removed along with the whitespace before them:
+  const edits = [
+    ...analysis.preloads.map(({ start, end }) => ({
+      start: start - /\s*$/.exec(html.slice(0, start))[0].length,
+      end,
+      text: "",
+    })),
+    { start: analysis.map.end, end: analysis.map.end, text: tags },
+  ].sort((a, b) => b.start - a.start);
+  for (const { start, end, text } of edits)
+    html = html.slice(0, start) + text + html.slice(end);
+  return html;
+}
+
+/**
+ * Writes preloads for servers that send them as headers rather than in HTML,
+ * in a format that depends on the file name:
+ *
+ *   - "_headers" files of Netlify and Cloudflare Pages get a "Link" header
+ *     for each preload, under the path of the HTML output or "/*"
+ *   - JSON files are written as a manifest of the preloads, along with
+ *     their integrities
+ *   - other files are written with a single HTTP "Link" header
+ *
+ * Local modules are written as paths from the root URL, or from the directory
+ * of the file when there's no root.
+ */
+export async function writePreloadOutput(
+  preloads: Preload[],
+  htmlFile: string | null,
+  rootUrl: URL | null,
+  flags: Flags,
+  silent = false
+) {
+  const file = path.resolve(process.cwd(), flags.preloadOutput);
+  const base = rootUrl ?? pathToFileURL(`${path.dirname(file)}/`);
+  const hrefs = preloads.map(({ url }) => relativeUrl(url, base, true));
+
+  let existing: string | undefined;
+  try {
+    existing = await fs.readFile(file, "utf-8");
+  } catch {}
+
+  let source: string;
+  if (path.basename(file) === "_headers") {
+    source = setHeadersFilePreloads(
+      existing ?? "",
+      base.protocol === "file:"
+        ? getHeadersPath(htmlFile, fileURLToPath(base))
+        : "/*",
+      hrefs
+    );
+  } else if (file.endsWith(".json")) {
+    const manifest = {
+      preloads: preloads.map(({ integrity }, i) => ({
+        href: hrefs[i],
+        ...(integrity && { integrity }),
+      })),
+    };
+    source = `${JSON.stringify(manifest, null, flags.compact ? 0 : 2)}\n`;
+  } else {
+    source = `Link: ${hrefs
+      .map((href) => `<${href}>; rel=modulepreload`)
+      .join(", ")}\n`;
+  }
+
+  try {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, source);
+  } catch (e) {
+    throw new PermissionError(`Failed to write preloads to ${file}.`, {
+      cause: e,
+      hint: `Check the permissions of ${file}.`,
+    });
+  }
+  !silent &&
+    reportOk(
+      `Updated ${c.cyan(path.relative(process.cwd(), file))} with ${
+        preloads.length
+      } preload${preloads.length === 1 ? "" : "s"}`
+    );
+}
+
+// Path of the HTML page that a "_headers" file sets the preloads of:
+function getHeadersPath(htmlFile: string | null, rootDir: string): string {
+  if (!htmlFile) return "/*";
+  const rel = path.relative(rootDir, htmlFile).split(path.sep).join("/");
+  if (rel.startsWith("../")) return "/*";
+  return `/${rel.replace(/(^|\/)index\.html$/, "$1")}`;
+}
+
+/**
+ * Sets the preload "Link" headers of a path in a "_headers" file, in which
+ * each path is followed by its indented headers. Other paths and headers
+ * are kept as they are.
+ */
+function setHeadersFilePreloads(
+  source: string,
+  headersPath: string,
+  hrefs: string[]
+): string {
+  const links = hrefs.map((href) => `  Link: <${href}>; rel=modulepreload`);
+  const lines = source.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+
+  const start = lines.findIndex((line) => line.trimEnd() === headersPath);
+  if (start === -1) {
+    if (!links.length) return source;
+    if (lines.length && lines[lines.length - 1].trim()) lines.push("");
+    return `${[...lines, headersPath, ...links].join("\n")}\n`;
+  }
+
+  let end = start + 1;
+  while (end < lines.length && /^\s+\S/.test(lines[end])) end++;
+  const headers = lines
+    .slice(start + 1, end)
+    .filter((line) => !/^\s+Link:.*rel="?modulepreload/i.test(line));
+  lines.splice(start + 1, end - start - 1, ...links, ...headers);
+  return `${lines.join("\n")}\n`;
+}
+
+// Returns a URL relative to a base URL, or as an absolute path from the base
+// with "absolute", for URLs on the same origin as the base:
+function relativeUrl(url: string, base: URL, absolute: boolean): string {
+  const target = new URL(url);
+  if (target.origin !== base.origin || target.protocol !== base.protocol)
+    return url;
+  const baseDir = base.pathname.slice(0, base.pathname.lastIndexOf("/") + 1);
+  if (absolute) {
+    if (!target.pathname.startsWith(baseDir)) return url;
+    return `/${target.pathname.slice(baseDir.length)}`;
+  }
+  const rel = path.posix.relative(baseDir, target.pathname);
+  return rel.startsWith("../") ? rel : `./${rel}`;
+}
@@ -0,0 +1,218 @@
+import { type Provider, fetch } from "@jspm/generator";
+import c from "picocolors";
+import { JspmError, ProviderError } from "./errors";
+import type { Flags } from "./types";
+
+/**
+ * Configuration of a custom provider, for CDNs with a predictable URL layout.
+ * Templates can use the "{registry}", "{name}" and "{version}" placeholders,
+ * and the resolution endpoint can also use "{range}":
+ *
+ *   {
+ *     "packageUrl": "https://cdn.example.com/{name}@{version}/",
+ *     "versions": "https://cdn.example.com/{name}/versions.json"
+ *   }
+ */
+export interface CustomProviderConfig {
+  // URL of the root of a package, which must end in a "/":
+  packageUrl: string;
+
+  // Endpoint listing the available versions of a package, as either a JSON
+  // array of versions or an npm-style document with a "versions" field:
+  versions?: string;
+
+  // Endpoint resolving a version range to the latest matching version, as
+  // either a JSON document with a "version" field or a plain text version:
+  resolve?: string;
+
+  // Location of the package.json of a package, which defaults to the
+  // package.json in the root of the package:
+  packageJson?: string;
+
+  // Registry of the packages on the provider, which defaults to "npm":
+  registry?: string;
+}
+
+/**
+ * Creates the generator providers for the custom providers in the flags,
+ * validating their configuration.
+ */
+export function getCustomProviders(
+  flags: Flags
+): Record<string, Provider> | undefined {
+  if (!flags.customProviders) return undefined;
+  if (!isObject(flags.customProviders))
+    throw new JspmError(
+      `Expected "customProviders" to be an object of provider names to provider configurations.`
+    );
+
+  return Object.fromEntries(
+    Object.entries(flags.customProviders).map(([name, config]) => [
+      name,
+      createProvider(name, config),
+    ])
+  );
+}
+
+function createProvider(
+  providerName: string,
+  config: CustomProviderConfig
+): Provider {
+  const invalid = (reason: string) =>
+    new JspmError(
+      `Invalid custom provider ${c.bold(providerName)}, ${reason}.`
+    );
+  if (!isObject(config)) throw invalid("expected an object");
+  if (typeof config.packageUrl !== "string")
+    throw invalid(`"packageUrl" must be a URL template`);
+  if (!config.packageUrl.endsWith("/"))
+    throw invalid(`"packageUrl" must end in a "/"`);
+  if (
+    !config.packageUrl.includes("{name}") ||
+    !config.packageUrl.includes("{version}")
+  )
+    throw invalid(`"packageUrl" must include "{name}" and "{version}"`);
+  if (!config.versions && !config.resolve)
+    throw invalid(`either "versions" or "resolve" must be given`);
+
+  const defaultRegistry = config.registry || "npm";
+  const packageUrlRegEx = templateRegEx(config.packageUrl);
+  const parsePackageUrl = (url: string) => {
+    const match = url.match(packageUrlRegEx);
+    if (!match?.groups) return null;
+    return {
+      pkg: {
+        registry: match.groups.registry ?? defaultRegistry,
+        name: match.groups.name,
+        version: match.groups.version,
+      },
+      subpath: url.length > match[0].length ? url.slice(match[0].length) : "",
+    };
+  };
+
+  return {
+    async pkgToUrl(pkg) {
+      return expandTemplate(config.packageUrl, pkg) as `${string}/`;
+    },
+
+    parseUrlPkg(url) {
+      const parsed = parsePackageUrl(url);
+      if (!parsed) return null;
+      return {
+        pkg: parsed.pkg,
+        subpath: parsed.subpath ? `./${parsed.subpath}` : null,
+        layer: "default",
+      };
+    },
+
+    async resolveLatestTarget({ registry, name, range, unstable }) {
+      if (range.isExact && !range.version.tag)
+        return { registry, name, version: range.version.toString() };
+
+      if (config.resolve) {
+        const url = expandTemplate(config.resolve, {
+          registry,
+          name,
+          range: range.toString(),
+        });
+        const source = await fetchEndpoint(url, this.fetchOpts);
+        if (source === null) return null;
+        let version: string;
+        try {
+          version = JSON.parse(source).version;
+        } catch {
+          version = source.trim();
+        }
+        return version ? { registry, name, version } : null;
+      }
+
+      const url = expandTemplate(config.versions, { registry, name });
+      const source = await fetchEndpoint(url, this.fetchOpts);
+      if (source === null) return null;
+      let versions: string[];
+      let tags: Record<string, string> = {};
+      try {
+        const json = JSON.parse(source);
+        if (Array.isArray(json)) {
+          versions = json;
+        } else {
+          versions = Array.isArray(json.versions)
+            ? json.versions
+            : Object.keys(json.versions || {});
+          tags = json["dist-tags"] || {};
+        }
+      } catch {
+        throw new ProviderError(
+          `Invalid version listing for ${name} from custom provider ${c.bold(
+            providerName
+          )} at ${url}, expected JSON.`
+        );
+      }
+
+      if (range.isExact && range.version.tag) {
+        const version = tags[range.version.tag];
+        return version ? { registry, name, version } : null;
+      }
+      const version = range.bestMatch(versions, unstable);
+      return version ? { registry, name, version: version.toString() } : null;
+    },
+
+    async getPackageConfig(pkgUrl) {
+      if (!config.packageJson) return undefined;
+      const parsed = parsePackageUrl(pkgUrl);
+      if (!parsed) return undefined;
+      const source = await fetchEndpoint(
+        expandTemplate(config.packageJson, parsed.pkg),
+        this.fetchOpts
+      );
+      return source === null ? null : JSON.parse(source);
+    },
+  };
+}
+
+// Fetches a provider endpoint, returning null if it is not found:
+export async function fetchEndpoint(
+  url: string,
+  fetchOpts: RequestInit
+): Promise<string | null> {
+  const res = await fetch(url, fetchOpts);
+  if (res.status === 404) return null;
+  if (res.status !== 200 && res.status !== 304)
+    throw new ProviderError(
+      `Invalid status code ${res.status} fetching ${url}.`
+    );
+  return res.text();
+}
+
+export function expandTemplate(
+  template: string,
+  values: { registry: string; name: string; version?: string; range?: string }
+): string {
+  return template.replace(/\{(\w+)\}/g, (match, key) =>
+    key in values ? values[key] : match
+  );
+}
+
+// Converts a package URL template to a regular expression, which matches the
+// package URLs at the start of a module URL:
+export function templateRegEx(template: string): RegExp {
+  const patterns = {
+    registry: "(?<registry>[^/:]+)",
+    name: "(?<name>(?:@[^/]+/)?[^/@]+)",
+    version: "(?<version>[^/]+)",
+  };
+  const source = template
+    .split(/(\{\w+\})/)
+    .map((part) => {
+      const key = part.slice(1, -1);
+      return part.startsWith("{") && key in patterns
+        ? patterns[key]
+        : part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}`);
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,160 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { stripVTControlCharacters } from "util";
+import c from "picocolors";
+import type { MapChange } from "./diff";
+import { log } from "./logger";
+import type { IImportMapJspm } from "./types";
+
+export interface Diagnostic {
+  // Stable identifier of the diagnostic, such as "WARN_NOTHING_TO_INSTALL":
+  code: string;
+  message: string;
+
+  // Next step for fixing an error, such as a "did you mean" suggestion:
+  hint?: string;
+}
+
+export interface PackageChange extends MapChange {
+  // Packages of the URLs of the mapping, such as "lit@2.7.0":
+  fromPackage?: string;
+  toPackage?: string;
+}
+
+/**
+ * The result of a command, which is printed on stdout with the "--json" flag
+ * in place of the usual output of the command.
+ */
+export interface JsonResult {
+  command: string;
+  ok: boolean;
+
+  // The file the import map was written to, which is null for dry runs and
+  // "--stdout", and the final import map:
+  output: string | null;
+  map: IImportMapJspm | null;
+  changes: PackageChange[];
+
+  // Command-specific results, such as the tree of "jspm ls":
+  result?: unknown;
+
+  messages: string[];
+  warnings: Diagnostic[];
+  errors: Diagnostic[];
+}
+
+export interface ReportOptions {
+  // Whether messages are also printed as they are reported, as they are in
+  // the default output of the CLI:
+  print?: boolean;
+
+  // Whether to print only errors, as with the "--silent" flag:
+  quiet?: boolean;
+}
+
+interface Report extends ReportOptions {
+  result: JsonResult;
+}
+
+// Reports are kept per async context, so that concurrent API calls don't
+// collect each other's messages:
+const reports = new AsyncLocalStorage<Report>();
+
+// Whether the messages of the current command are being collected:
+export function isReporting() {
+  return !!reports.getStore();
+}
+
+// Whether the human-readable output of the current command is enabled, which
+// includes spinners and printed maps. This is the case outside of reports:
+export function isPrinting() {
+  const report = reports.getStore();
+  return !report || (report.print && !report.quiet);
+}
+
+// Returns the result of the report that the current command is running in:
+export function currentResult(): JsonResult | null {
+  return reports.getStore()?.result ?? null;
+}
+
+/**
+ * Runs a command with a new report, collecting everything it reports into a
+ * result object. Errors are not caught, and should be reported by the caller.
+ */
+export async function withReport(
+  command: string,
+  fn: () => Promise<unknown>,
+  options: ReportOptions = {}
+): Promise<JsonResult> {
+  const report: Report = {
+    ...options,
+    result: {
+      command,
+      ok: true,
+      output: null,
+      map: null,
+      changes: [],
+      messages: [],
+      warnings: [],
+      errors: [],
+    },
+  };
+  await reports.run(report, fn);
+  report.result.ok = !report.result.errors.length;
+  return report.result;
+}
+
+export function reportOk(message: string) {
+  log("report", stripVTControlCharacters(message), "info");
+  currentResult()?.messages.push(stripVTControlCharacters(message));
+  if (isPrinting()) console.warn(`${c.green("Ok:")} ${message}`);
+}
+
+export function reportNote(message: string) {
+  log("report", stripVTControlCharacters(message), "info");
+  currentResult()?.messages.push(stripVTControlCharacters(message));
+  if (isPrinting()) console.warn(`${c.cyan("Note:")} ${message}`);
+}
+
+export function reportWarning(code: string, message: string) {
+  log("report", `${code}: ${stripVTControlCharacters(message)}`, "warn");
+  currentResult()?.warnings.push({
+    code,
+    message: stripVTControlCharacters(message),
+  });
+  if (isPrinting()) console.warn(`${c.red("Warning:")} ${message}`);
+}
+
+export function reportError(code: string, message: string, hint?: string) {
+  log("report", `${code}: ${stripVTControlCharacters(message)}`, "error");
+  const report = reports.getStore();
+  report?.result.errors.push({
+    code,
+    message: stripVTControlCharacters(message),
+    ...(hint && { hint: stripVTControlCharacters(hint) }),
+  });
+  if (!report || report.print)
+    console.error(
+      `${c.red("Error:")} ${message}${
+        hint ? `\n${c.cyan("Hint:")} ${hint}` : ""
+      }\n`
+    );
+}
+
+// Records the import map that the current command has written:
+export function reportOutput(
+  output: string | null,
+  map: IImportMapJspm,
+  changes: PackageChange[]
+) {
+  const result = currentResult();
+  if (!result) return;
+  result.output = output;
+  result.map = map;
+  result.changes = changes;
+}
+
+// Records the command-specific result of the current command:
+export function reportResult(data: unknown) {
+  const result = currentResult();
+  if (result) result.result = data;
+}
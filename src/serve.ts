@@ -0,0 +1,248 @@
+import fs from "fs/promises";
+import http from "node:http";
+import path from "path";
+import { pathToFileURL } from "url";
+import c from "picocolors";
+import { withConfig } from "./config";
+import { JspmError } from "./errors";
+import { withType } from "./logger";
+import { reportOk } from "./report";
+import type { Flags } from "./types";
+import {
+  getEnv,
+  getGenerator,
+  getInput,
+  getLocalModules,
+  injectHtml,
+  invalidateLocalModules,
+  reportFailure,
+  withCommandReport,
+} from "./utils";
+import { createWatcher } from "./watcher";
+
+// Endpoint for live-reload events, which is a stream of server-sent events
+// that receives a message whenever a served file changes:
+export const liveReloadPath = "/__jspm/live-reload";
+
+const liveReloadScript = `<script>new EventSource(${JSON.stringify(
+  liveReloadPath
+)}).onmessage = () => location.reload();</script>`;
+
+const contentTypes: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".mjs": "text/javascript; charset=utf-8",
+  ".cjs": "text/javascript; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".json": "application/json; charset=utf-8",
+  ".map": "application/json; charset=utf-8",
+  ".wasm": "application/wasm",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".ico": "image/x-icon",
+  ".txt": "text/plain; charset=utf-8",
+};
+
+export interface DevServer {
+  url: string;
+  server: http.Server;
+
+  // Tells every connected page to reload, as happens when a file changes:
+  reload(): void;
+  close(): Promise<void>;
+}
+
+export default async function serve(flags: Flags): Promise<DevServer> {
+  const log = withType("serve/serve");
+
+  flags = await withConfig("serve", flags);
+  log(`Flags: ${JSON.stringify(flags)}`);
+
+  const port = getPort(flags);
+  const rootDir = path.resolve(process.cwd(), flags.root || ".");
+  const liveReload = flags.liveReload !== false;
+  const env = await getEnv(flags);
+  const generator = await getGenerator(flags);
+  const input = await getInput(flags);
+  if (input) await generator.addMappings(input);
+
+  log(`Input map parsed: ${input}`);
+
+  // The generator can only link one page at a time, and rendered pages are
+  // kept until one of the files they were linked from changes:
+  const rendered = new Map<string, string>();
+  let queue: Promise<unknown> = Promise.resolve();
+  let lastError: string | null = null;
+
+  const clients = new Set<http.ServerResponse>();
+  const reload = () => {
+    for (const client of clients) client.write("data: reload\n\n");
+  };
+
+  // Pages are relinked when they're requested again, which the live-reload
+  // clients do right away:
+  const watcher = createWatcher(async (files) => {
+    log(`Invalidating pages for changes to: ${files.join(", ")}`);
+    invalidateLocalModules(generator, files);
+    generator.traceMap.pins = [];
+    rendered.clear();
+    reload();
+  });
+  const watchFiles = (...files: string[]) =>
+    watcher.watch([...new Set([...watcher.files(), ...files])]);
+
+  const renderHtml = (file: string) => {
+    const result = queue.then(async () => {
+      if (rendered.has(file)) return rendered.get(file);
+
+      const html = await fs.readFile(file, "utf-8");
+      const htmlUrl = pathToFileURL(file);
+      const pins = await generator.linkHtml(html, htmlUrl);
+
+      // Browsers that don't support import maps are not a concern during
+      // development, and es-module-shims isn't available offline:
+      let output = await injectHtml(
+        generator,
+        html,
+        pins,
+        htmlUrl,
+        flags,
+        false
+      );
+      if (liveReload) output = appendLiveReload(output);
+
+      rendered.set(file, output);
+      watchFiles(file, ...getLocalModules(generator));
+      return output;
+    });
+    queue = result.catch(() => {});
+    return result;
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url, "http://localhost");
+    log(`${req.method} ${url.pathname}`);
+
+    if (url.pathname === liveReloadPath) {
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      });
+      res.write(": connected\n\n");
+      clients.add(res);
+      req.on("close", () => clients.delete(res));
+      return;
+    }
+
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      res.writeHead(405, { Allow: "GET, HEAD" });
+      return res.end();
+    }
+
+    const file = await resolveFile(rootDir, url.pathname);
+    if (!file) {
+      res.writeHead(404, { "Content-Type": contentTypes[".txt"] });
+      return res.end(`Not found: ${url.pathname}`);
+    }
+
+    try {
+      const ext = path.extname(file);
+      let body: string | Buffer;
+      if (ext === ".html") {
+        body = await renderHtml(file);
+        lastError = null;
+      } else {
+        body = await fs.readFile(file);
+        if (!file.split(path.sep).includes("node_modules")) watchFiles(file);
+      }
+
+      res.writeHead(200, {
+        "Content-Type": contentTypes[ext] || "application/octet-stream",
+        "Cache-Control": "no-cache",
+      });
+      res.end(req.method === "HEAD" ? undefined : body);
+    } catch (e) {
+      // Report link errors once rather than on every reload, and keep
+      // watching the files of the page so that a fix is picked up:
+      if (e.message !== lastError && !flags.silent)
+        await withCommandReport("serve", flags, async () =>
+          reportFailure(e, flags)
+        );
+      lastError = e.message;
+      watchFiles(file, ...getLocalModules(generator));
+
+      res.writeHead(500, { "Content-Type": contentTypes[".txt"] });
+      res.end(`Error: ${e.message}`);
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, resolve);
+  });
+
+  const address = server.address();
+  const serverUrl = `http://localhost:${
+    typeof address === "object" ? address.port : port
+  }/`;
+  !flags.silent &&
+    reportOk(
+      `Serving ${c.cyan(
+        path.relative(process.cwd(), rootDir) || "."
+      )} at ${c.bold(serverUrl)} (${env.join(", ")})`
+    );
+
+  return {
+    url: serverUrl,
+    server,
+    reload,
+    close() {
+      watcher.close();
+      for (const client of clients) client.end();
+      return new Promise((resolve) => server.close(() => resolve()));
+    },
+  };
+}
+
+function getPort(flags: Flags): number {
+  if (flags.port === undefined) return 8080;
+  const port = Number(flags.port);
+  if (!Number.isInteger(port) || port < 0 || port > 65535)
+    throw new JspmError(
+      `Invalid port "${flags.port}", expected an integer from 0 to 65535.`
+    );
+  return port;
+}
+
+// Resolves a request path to a file in the served directory, using the
+// "index.html" of directories, and refusing paths outside of the directory:
+async function resolveFile(
+  rootDir: string,
+  pathname: string
+): Promise<string | null> {
+  let file: string;
+  try {
+    file = path.join(rootDir, decodeURIComponent(pathname));
+  } catch {
+    return null;
+  }
+  if (path.relative(rootDir, file).startsWith("..")) return null;
+
+  try {
+    if ((await fs.stat(file)).isDirectory())
+      file = path.join(file, "index.html");
+    return (await fs.stat(file)).isFile() ? file : null;
+  } catch {
+    return null;
+  }
+}
+
+function appendLiveReload(html: string): string {
+  const bodyEnd = html.lastIndexOf("</body>");
+  if (bodyEnd === -1) return html + liveReloadScript;
+  return html.slice(0, bodyEnd) + liveReloadScript + html.slice(bodyEnd);
+}
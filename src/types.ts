@@ -1,19 +1,47 @@
 import type { Generator } from "@jspm/generator";
+import type { configurableFlags, mappingFlags } from "./config";
+import type { CustomProviderConfig } from "./providers";
 
 export interface Flags {
   resolution?: string | string[];
   env?: string | string[];
+  envMatrix?: string | string[];
   map?: string;
   output?: string;
   root?: string;
   provider?: string;
   stdout?: boolean;
   preload?: boolean;
+  preloadStrategy?: string;
   integrity?: boolean;
   compact?: boolean;
   freeze?: boolean;
   silent?: boolean;
   cache?: string;
+  dryRun?: boolean;
+  depth?: string | number;
+  json?: boolean;
+  watch?: boolean;
+  port?: string | number;
+  liveReload?: boolean;
+  vendorDir?: string;
+  verify?: boolean;
+  registryMirror?: string | string[];
+  mirrorUrls?: boolean;
+  verbose?: boolean;
+  debug?: boolean;
+  logFile?: string;
+  values?: string;
+  rules?: string | string[];
+  strategy?: string;
+  types?: string;
+  save?: boolean;
+  saveDev?: boolean;
+  saveExact?: boolean;
+  preloadOutput?: string;
+
+  // Only set through project configuration:
+  customProviders?: Record<string, CustomProviderConfig>;
 }
 
 export type IImportMap = ReturnType<Generator["getMap"]>;
@@ -23,3 +51,19 @@ export type IImportMap = ReturnType<Generator["getMap"]>;
 // deliberate choice to make sure users are aware of the fact that import maps
 // are environment-specific:
 export type IImportMapJspm = IImportMap & { env?: string[] };
+
+type ConfigurableFlag = (typeof configurableFlags)[number];
+type MappingFlag = (typeof mappingFlags)[number];
+
+// Options that can be set in the project configuration, i.e. in the "jspm"
+// field of package.json or in a jspm.config.json file. Flags of mappings,
+// such as resolutions, can also be given as an object of names to values:
+export type ConfigOptions = Omit<Pick<Flags, ConfigurableFlag>, MappingFlag> & {
+  [K in MappingFlag]?: Flags[K] | Record<string, string>;
+};
+
+// Project configuration, with optional per-command overrides, such as
+// { "env": ["production"], "commands": { "link": { "preload": true } } }:
+export interface Config extends ConfigOptions {
+  commands?: Record<string, ConfigOptions>;
+}
@@ -0,0 +1,277 @@
+import { existsSync, readFileSync } from "fs";
+import fs from "fs/promises";
+import path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import type { Generator } from "@jspm/generator";
+import c from "picocolors";
+import { PermissionError } from "./errors";
+import { getPackageName } from "./dependencies";
+import { parseJsonc, setJsoncProperties } from "./jsonc";
+import { withType } from "./logger";
+import { reportNote, reportOk } from "./report";
+import type { Flags, IImportMapJspm } from "./types";
+
+export interface TypeMapping {
+  specifier: string;
+
+  // Declaration file of the mapped module, or the package directory for
+  // mappings of package subpaths, or null if none was found:
+  types: string | null;
+
+  // The name that the types can be imported by, when the package is in the
+  // local node_modules:
+  packageName?: string;
+}
+
+/**
+ * Writes TypeScript resolutions for the top-level imports of the given map,
+ * which is resolved against the given URL,
+ * so that editors can find types for bare specifiers mapped to URLs. A JSON
+ * file is written as a tsconfig fragment with "compilerOptions.paths", and a
+ * ".d.ts" file as ambient module declarations.
+ */
+export async function writeTypings(
+  generator: Generator,
+  map: IImportMapJspm,
+  mapUrl: URL | string,
+  flags: Flags,
+  silent = false
+) {
+  const log = withType("typings/writeTypings");
+  const typesFile = path.resolve(process.cwd(), flags.types);
+  const typesFileRel = path.relative(process.cwd(), typesFile);
+
+  const mappings: TypeMapping[] = [];
+  for (const [specifier, url] of Object.entries(map.imports || {})) {
+    if (!isBareSpecifier(specifier)) continue;
+    mappings.push(
+      await getTypeMapping(generator, specifier, new URL(url, mapUrl).href)
+    );
+  }
+  log(`Type mappings: ${JSON.stringify(mappings)}`);
+
+  let existing: string | undefined;
+  try {
+    existing = await fs.readFile(typesFile, "utf-8");
+  } catch {}
+  const source = typesFile.endsWith(".d.ts")
+    ? toDeclarations(mappings, flags)
+    : toTsconfigPaths(existing, mappings, typesFile, flags);
+
+  try {
+    await fs.mkdir(path.dirname(typesFile), { recursive: true });
+    await fs.writeFile(typesFile, source);
+  } catch (e) {
+    throw new PermissionError(`Failed to write types to ${typesFile}.`, {
+      cause: e,
+      hint: `Check the permissions of ${typesFile}.`,
+    });
+  }
+
+  if (!silent) {
+    reportOk(`Updated ${c.cyan(typesFileRel)}`);
+    const untyped = mappings.filter(({ types }) => !types);
+    if (untyped.length)
+      reportNote(
+        `No types were found for ${untyped
+          .map(({ specifier }) => c.bold(specifier))
+          .join(", ")}.`
+      );
+  }
+  return mappings;
+}
+
+/**
+ * Finds the declaration file for a mapped module. Modules of packages that
+ * aren't local, such as CDN packages, use the copy of the package in the
+ * local node_modules if there is one.
+ */
+async function getTypeMapping(
+  generator: Generator,
+  specifier: string,
+  url: string
+): Promise<TypeMapping> {
+  const { resolver } = generator.traceMap;
+  const parsed = await resolver.parseUrlPkg(url);
+  let pkgUrl: string | null =
+    parsed && (await resolver.pkgToUrl(parsed.pkg, parsed.source));
+  if (pkgUrl && !pkgUrl.startsWith("file:")) {
+    const localPkg = path.resolve(
+      process.cwd(),
+      "node_modules",
+      parsed.pkg.name
+    );
+    pkgUrl = existsSync(localPkg) ? pathToFileURL(`${localPkg}/`).href : null;
+  }
+
+  // Files that aren't in a package can only have declarations next to them:
+  if (!pkgUrl) {
+    if (!url.startsWith("file:")) return { specifier, types: null };
+    return { specifier, types: findSiblingTypes(fileURLToPath(url)) };
+  }
+
+  const pkgDir = fileURLToPath(pkgUrl);
+  const packageName = path
+    .relative(path.resolve(process.cwd(), "node_modules"), pkgDir)
+    .split(path.sep)
+    .join("/");
+  const isLocalPackage =
+    !packageName.startsWith("..") && !packageName.includes("node_modules");
+  const subpath = `.${specifier.slice(getPackageName(specifier).length)}`;
+  const pkgMapping = {
+    specifier,
+    ...(isLocalPackage && {
+      packageName: `${packageName}${subpath.slice(1)}`,
+    }),
+  };
+
+  // Package subpaths map to the package directory:
+  if (subpath.endsWith("/")) return { ...pkgMapping, types: pkgDir };
+
+  // Package configurations are the package.json files as they are, so they
+  // include the fields for types:
+  const pcfg: {
+    exports?: unknown;
+    main?: string;
+    types?: string;
+    typings?: string;
+  } | null = await resolver.getPackageConfig(pkgUrl);
+  const entry =
+    findExportsTypes(pcfg?.exports, subpath) ??
+    (subpath === "." ? pcfg?.types ?? pcfg?.typings : null);
+  if (entry && existsSync(path.resolve(pkgDir, entry)))
+    return { ...pkgMapping, types: path.resolve(pkgDir, entry) };
+
+  // Otherwise the declarations are expected next to the module itself:
+  const file = url.startsWith(pkgUrl)
+    ? fileURLToPath(url)
+    : path.resolve(
+        pkgDir,
+        subpath === "." ? pcfg?.main || "index.js" : subpath
+      );
+  return { ...pkgMapping, types: findSiblingTypes(file) };
+}
+
+// Finds the "types" condition of the export of a package subpath:
+function findExportsTypes(exports: unknown, subpath: string): string | null {
+  if (!exports || typeof exports !== "object") return null;
+  const keys = Object.keys(exports);
+  if (keys.length && keys.every((key) => key.startsWith("."))) {
+    if (subpath in exports) return findTypesCondition(exports[subpath]);
+    for (const key of keys) {
+      const [prefix, suffix] = key.split("*");
+      if (
+        suffix !== undefined &&
+        subpath.startsWith(prefix) &&
+        subpath.endsWith(suffix)
+      ) {
+        const match = subpath.slice(
+          prefix.length,
+          subpath.length - suffix.length
+        );
+        return findTypesCondition(exports[key])?.replace("*", match) ?? null;
+      }
+    }
+    return null;
+  }
+  return subpath === "." ? findTypesCondition(exports) : null;
+}
+
+function findTypesCondition(target: unknown): string | null {
+  if (!target || typeof target !== "object") return null;
+  const { types } = target as { types?: unknown };
+  if (typeof types === "string") return types;
+  for (const value of Object.values(target)) {
+    const found = findTypesCondition(value);
+    if (found) return found;
+  }
+  return null;
+}
+
+function findSiblingTypes(file: string): string | null {
+  const types = file.replace(/\.(m|c)?[jt]sx?$/, ".d.$1ts");
+  return types !== file && existsSync(types) ? types : null;
+}
+
+function toTsconfigPaths(
+  existing: string | undefined,
+  mappings: TypeMapping[],
+  typesFile: string,
+  flags: Flags
+): string {
+  const relative = (file: string) => {
+    const rel = path
+      .relative(path.dirname(typesFile), file)
+      .split(path.sep)
+      .join("/");
+    return rel.startsWith(".") ? rel : `./${rel}`;
+  };
+  const paths = Object.fromEntries(
+    mappings
+      .filter(({ types }) => types)
+      .map(({ specifier, types }) =>
+        specifier.endsWith("/")
+          ? [`${specifier}*`, [`${relative(types)}/*`]]
+          : [specifier, [relative(types)]]
+      )
+  );
+
+  // Existing configurations only have their paths replaced:
+  let compilerOptions = {};
+  try {
+    compilerOptions = parseJsonc(existing)?.compilerOptions ?? {};
+  } catch {
+    existing = undefined;
+  }
+  return setJsoncProperties(
+    existing?.trim() ? existing : "{}\n",
+    { compilerOptions: { ...compilerOptions, paths } },
+    flags.compact
+  );
+}
+
+/**
+ * Ambient declarations can't refer to files, so mappings to packages in the
+ * local node_modules are declared as re-exports of the package, and other
+ * mappings are declared without types, so that they're at least resolved.
+ */
+function toDeclarations(mappings: TypeMapping[], flags: Flags): string {
+  const declarations = mappings
+    // Typed packages resolve to their own types without a declaration:
+    .filter(
+      ({ specifier, types, packageName }) => !types || specifier !== packageName
+    )
+    .map(({ specifier, types, packageName }) => {
+      const name = JSON.stringify(
+        specifier.endsWith("/") ? `${specifier}*` : specifier
+      );
+      if (!types || !packageName || specifier.endsWith("/"))
+        return `declare module ${name};`;
+      return `declare module ${name} {
+  export * from ${JSON.stringify(packageName)};${
+        hasDefaultExport(types)
+          ? `\n  export { default } from ${JSON.stringify(packageName)};`
+          : ""
+      }
+}`;
+    });
+  return `// Generated by jspm from ${
+    flags.output || flags.map || "importmap.json"
+  }.\n${declarations.join("\n")}\n`;
+}
+
+// Declaration files with default exports, which "export *" doesn't include:
+function hasDefaultExport(types: string): boolean {
+  try {
+    return /\bexport\s+(default\b|\{[^}]*\bdefault\b)/.test(
+      readFileSync(types, "utf-8")
+    );
+  } catch {
+    return false;
+  }
+}
+
+// Bare specifiers, as opposed to URLs and relative or absolute paths:
+function isBareSpecifier(specifier: string): boolean {
+  return !/^(\.{0,2}\/|[a-z][a-z0-9+.-]*:)/i.test(specifier);
+}
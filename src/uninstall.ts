@@ -1,27 +1,46 @@
+import path from "path";
+import { pathToFileURL } from "url";
 import c from "picocolors";
 import type { Flags } from "./types";
 import {
   getEnv,
   getGenerator,
   getInput,
+  getInputMap,
+  getInputPath,
   startSpinner,
   stopSpinner,
+  withEnvMatrix,
   writeOutput,
 } from "./utils";
-import { withType } from "./logger";
+import { withConfig } from "./config";
+import { getTargetSpecifier, removeDependencies } from "./dependencies";
+import { JspmError, didYouMean } from "./errors";
+import { span, withType } from "./logger";
+import { reportNote, reportOk, reportResult, reportWarning } from "./report";
+
+export interface UninstallResult {
+  // Top-level imports that were removed from the map:
+  imports: string[];
+
+  // Scopes that nothing in the map reaches any more, which were pruned:
+  scopes: string[];
+}
 
 export default async function uninstall(packages: string[], flags: Flags) {
-  const log = withType("install/install");
+  const log = withType("uninstall/uninstall");
 
   log(`Uninstalling packages: ${packages.join(", ")}`);
+  flags = await withConfig("uninstall", flags);
   log(`Flags: ${JSON.stringify(flags)}`);
+  if (flags.envMatrix)
+    return withEnvMatrix(flags, (flags) => uninstall(packages, flags));
 
   if (packages.length === 0) {
     !flags.silent &&
-      console.warn(
-        `${c.red(
-          "Warning:"
-        )} Nothing to uninstall. Please provide a list of packages.`
+      reportWarning(
+        "WARN_NOTHING_TO_UNINSTALL",
+        "Nothing to uninstall. Please provide a list of packages."
       );
     return;
   }
@@ -29,18 +48,99 @@ export default async function uninstall(packages: string[], flags: Flags) {
   const env = await getEnv(flags);
   const input = await getInput(flags);
   const generator = await getGenerator(flags);
-  if (typeof input !== "undefined") await generator.addMappings(input);
+  const pins =
+    typeof input !== "undefined"
+      ? await span("input parse", () => generator.addMappings(input))
+      : [];
 
   log(`Input map parsed: ${input}`);
 
+  const names = getInstalledNames(packages, pins, flags);
+  const inputMap = await getInputMap(flags);
+
   !flags.silent &&
     startSpinner(
-      `Uninstalling ${c.bold(packages.join(", "))}. (${env.join(", ")})`
+      `Uninstalling ${c.bold(names.join(", "))}. (${env.join(", ")})`
     );
 
-  // Uninstall the provided packages.
-  await generator.uninstall(packages);
+  // Uninstalling relinks the remaining imports, which drops the scopes that
+  // only the uninstalled packages reached:
+  await span("uninstall", () => generator.uninstall(names));
 
   stopSpinner();
-  return await writeOutput(generator, null, env, flags, flags.silent);
+  const { imports = {}, scopes = {} } = generator.getMap();
+  const inputUrl = pathToFileURL(getInputPath(flags));
+  const remainingScopes = new Set(
+    Object.keys(scopes).map((scope) => new URL(scope, generator.mapUrl).href)
+  );
+  const result: UninstallResult = {
+    imports: Object.keys(inputMap.imports || {}).filter(
+      (specifier) => !(specifier in imports)
+    ),
+    scopes: Object.keys(inputMap.scopes || {}).filter(
+      (scope) => !remainingScopes.has(new URL(scope, inputUrl).href)
+    ),
+  };
+  log(`Removed: ${JSON.stringify(result)}`);
+  reportResult(result);
+
+  const map = await writeOutput(generator, null, env, flags, flags.silent);
+  if (!flags.silent) {
+    // Dry runs report what the uninstall would have changed:
+    const removed = `${c.bold(result.imports.join(", "))} from the imports.`;
+    if (flags.dryRun) reportNote(`Would remove ${removed}`);
+    else reportOk(`Removed ${removed}`);
+    if (result.scopes.length)
+      reportNote(
+        `${flags.dryRun ? "Would prune" : "Pruned"} ${
+          result.scopes.length
+        } scope${
+          result.scopes.length === 1 ? "" : "s"
+        } that nothing imports any more: ${result.scopes.join(", ")}`
+      );
+  }
+  if (flags.save) await removeDependencies(map, names, flags, flags.silent);
+  return map;
+}
+
+/**
+ * Returns the top-level imports of the input map for the given packages,
+ * which can also be given as install targets, such as "npm:lit@2.7.0" for
+ * "lit". Packages that aren't in the map fail with suggestions.
+ */
+function getInstalledNames(
+  packages: string[],
+  pins: string[],
+  flags: Flags
+): string[] {
+  const isInstalled = (name: string) =>
+    pins.some(
+      (pin) => pin === name || (name.endsWith("/") && pin.startsWith(name))
+    );
+
+  const names: string[] = [];
+  const missing: string[] = [];
+  for (const pkg of packages) {
+    const name = isInstalled(pkg) ? pkg : getTargetSpecifier(pkg);
+    if (isInstalled(name)) names.push(name);
+    else missing.push(pkg);
+  }
+  if (!missing.length) return [...new Set(names)];
+
+  const mapFile = path.relative(process.cwd(), getInputPath(flags));
+  throw new JspmError(
+    `No "imports" entr${missing.length === 1 ? "y" : "ies"} for ${missing
+      .map((name) => `"${name}"`)
+      .join(", ")} in ${c.cyan(mapFile)} to uninstall.`,
+    {
+      code: "ERR_NOT_INSTALLED",
+      hint:
+        didYouMean(getTargetSpecifier(missing[0]), pins) ??
+        (pins.length
+          ? `The imports of ${mapFile} are ${pins
+              .map((pin) => `"${pin}"`)
+              .join(", ")}.`
+          : `${mapFile} doesn't have any imports.`),
+    }
+  );
 }
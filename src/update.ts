@@ -6,15 +6,21 @@ import {
   getInput,
   startSpinner,
   stopSpinner,
+  withEnvMatrix,
   writeOutput,
 } from "./utils";
-import { withType } from "./logger";
+import { withConfig } from "./config";
+import { span, withType } from "./logger";
+import { reportWarning } from "./report";
 
 export default async function update(packages: string[], flags: Flags) {
   const log = withType("update/update");
 
   log(`Updating packages: ${packages.join(", ")}`);
+  flags = await withConfig("update", flags);
   log(`Flags: ${JSON.stringify(flags)}`);
+  if (flags.envMatrix)
+    return withEnvMatrix(flags, (flags) => update(packages, flags));
 
   const env = await getEnv(flags);
   const generator = await getGenerator(flags);
@@ -23,17 +29,16 @@ export default async function update(packages: string[], flags: Flags) {
   let inputPins: string[] = [];
   const input = await getInput(flags);
   if (typeof input !== "undefined") {
-    inputPins = await generator.addMappings(input);
+    inputPins = await span("input parse", () => generator.addMappings(input));
   }
 
   log(`Input map parsed: ${input}`);
 
   if (packages.length === 0 && inputPins.length === 0) {
     !flags.silent &&
-      console.warn(
-        `${c.red(
-          "Warning:"
-        )} Nothing to update. Please provide a list of packages or a non-empty input file.`
+      reportWarning(
+        "WARN_NOTHING_TO_UPDATE",
+        "Nothing to update. Please provide a list of packages or a non-empty input file."
       );
     return;
   } else {
@@ -43,7 +48,9 @@ export default async function update(packages: string[], flags: Flags) {
           packages.length ? packages.join(", ") : "everything"
         )}. (${env.join(", ")})`
       );
-    await generator.update(packages.length ? packages : undefined);
+    await span("install", () =>
+      generator.update(packages.length ? packages : undefined)
+    );
     stopSpinner();
   }
 
@@ -1,11 +1,65 @@
+import { AsyncLocalStorage } from "async_hooks";
 import fs from "fs/promises";
 import path from "path";
-import { pathToFileURL } from "url";
+import { performance } from "perf_hooks";
+import { fileURLToPath, pathToFileURL } from "url";
 import { Generator, analyzeHtml } from "@jspm/generator";
 import ora from "ora";
 import c from "picocolors";
-import { withType } from "./logger";
+import {
+  denoEnv,
+  followDenoConfig,
+  isDenoConfig,
+  readDenoMap,
+  writeDenoMap,
+} from "./deno";
+import { type MapChange, diffMaps, printDiff } from "./diff";
+import {
+  JspmError,
+  ParseError,
+  PermissionError,
+  ProviderError,
+  didYouMean,
+  toJspmError,
+} from "./errors";
+import {
+  configureLogger,
+  isConsoleLogging,
+  isLogLevel,
+  log as logEntry,
+  printSpanSummary,
+  span,
+  withType,
+} from "./logger";
+import {
+  getMirrorProviders,
+  toCanonicalHtml,
+  toCanonicalMap,
+  toMirrorUrls,
+} from "./mirrors";
+import {
+  getPreloadStrategy,
+  getPreloads,
+  setHtmlPreloads,
+  writePreloadOutput,
+} from "./preload";
+import { getCustomProviders } from "./providers";
+import {
+  type PackageChange,
+  isPrinting,
+  isReporting,
+  reportError,
+  reportNote,
+  reportOk,
+  reportOutput,
+  withReport,
+} from "./report";
 import type { Flags, IImportMapJspm } from "./types";
+import { writeTypings } from "./typings";
+
+// HTML import maps can't have an "env" field, so their environment is kept in
+// a data attribute on the import map script:
+const htmlEnvAttr = "data-jspm-env";
 
 // Default import map to use if none is provided:
 const defaultInputPath = "./importmap.json";
@@ -34,33 +88,68 @@ export const availableProviders = [
   "jspm.io#system",
 ];
 
-export class JspmError extends Error {
-  jspmError = true;
-}
-
 export function cwdUrl() {
   return pathToFileURL(`${process.cwd()}/`);
 }
 
 /**
- * Intercepts internal errors in CLI commands:
+ * Intercepts internal errors in CLI commands, and collects the output of the
+ * command into a single result object with the "--json" flag:
  */
-export function wrapCommand(fn: Function) {
+export function wrapCommand(fn: Function, command = fn.name) {
   return async (...args: any[]) => {
-    try {
-      await fn(...args);
-    } catch (e) {
-      stopSpinner();
-      process.exitCode = 1;
-      if (e instanceof JspmError || e?.jspmError) {
-        console.error(`${c.red("Error:")} ${e.message}\n`);
-        return;
+    const flags: Flags = args[args.length - 1];
+    configureLogger({
+      level: flags?.debug ? "debug" : flags?.verbose ? "info" : null,
+      file: flags?.logFile,
+    });
+    const start = performance.now();
+    await withCommandReport(command, flags, async () => {
+      try {
+        await fn(...args);
+      } catch (e) {
+        stopSpinner();
+        const error = toJspmError(e, flags);
+        process.exitCode = error?.exitCode ?? 1;
+        // Internal errors are thrown with their stack trace, unless the
+        // output is JSON:
+        if (!error && !flags?.json) throw e;
+        reportFailure(e, flags);
+      } finally {
+        printSpanSummary(performance.now() - start);
       }
-      throw e;
-    }
+    });
   };
 }
 
+/**
+ * Reports the error of a failed command, with errors that aren't JSPM errors
+ * being reported as internal errors.
+ */
+export function reportFailure(e: any, flags: Flags) {
+  const error =
+    toJspmError(e, flags) ??
+    new JspmError(e?.message ?? String(e), { code: "ERR_INTERNAL" });
+  reportError(error.code, error.message, error.hint);
+}
+
+/**
+ * Runs a CLI command with a report, which is printed on stdout as a single
+ * result object with the "--json" flag.
+ */
+export async function withCommandReport(
+  command: string,
+  flags: Flags,
+  fn: () => Promise<unknown>
+) {
+  const json = flags?.json && !flags.silent;
+  const result = await withReport(command, fn, {
+    print: !json,
+    quiet: flags?.silent,
+  });
+  if (json) console.log(JSON.stringify(result, null, 2));
+}
+
 export async function writeOutput(
   generator: Generator,
   pins: string[] | null,
@@ -68,25 +157,170 @@ export async function writeOutput(
   flags: Flags,
   silent = false
 ) {
-  if (flags.stdout) return writeStdoutOutput(generator, pins, silent);
+  return span("write", () =>
+    writeOutputMap(generator, pins, env, flags, silent)
+  );
+}
 
+async function writeOutputMap(
+  generator: Generator,
+  pins: string[] | null,
+  env: string[],
+  flags: Flags,
+  silent = false
+) {
+  if (flags.dryRun)
+    return writeDryRunOutput(generator, pins, env, flags, silent);
+
+  // The changes to the output file are only computed for reports:
+  const mapFile = getOutputPath(flags);
+  const previousMap = isReporting()
+    ? await readOutputMap(mapFile, generator.mapUrl)
+    : null;
+
+  let map: IImportMapJspm;
+  if (flags.stdout)
+    map = await writeStdoutOutput(generator, pins, flags, silent);
+  else if (mapFile.endsWith(".html"))
+    map = await writeHtmlOutput(mapFile, generator, pins, env, flags, silent);
+  else map = await writeJsonOutput(mapFile, generator, pins, env, flags, silent);
+
+  if (previousMap)
+    reportOutput(
+      flags.stdout ? null : path.relative(process.cwd(), mapFile),
+      map,
+      await labelChanges(generator, diffMaps(previousMap, map).changes)
+    );
+  if (flags.types)
+    await writeTypings(
+      generator,
+      map,
+      flags.stdout ? generator.mapUrl : pathToFileURL(mapFile),
+      flags,
+      silent
+    );
+  if (flags.preloadOutput)
+    await writePreloadOutput(
+      await getPreloads(
+        generator,
+        pins ?? true,
+        getPreloadStrategy(flags),
+        flags
+      ),
+      !flags.stdout && mapFile.endsWith(".html") ? mapFile : null,
+      generator.rootUrl,
+      flags,
+      silent
+    );
+  return map;
+}
+
+async function writeDryRunOutput(
+  generator: Generator,
+  pins: string[] | null,
+  env: string[],
+  flags: Flags,
+  silent = false
+) {
   const mapFile = getOutputPath(flags);
-  if (mapFile.endsWith(".html"))
-    return writeHtmlOutput(mapFile, generator, pins, env, flags, silent);
-  return writeJsonOutput(mapFile, generator, pins, env, flags, silent);
+  const mapFileRel = path.relative(process.cwd(), mapFile);
+
+  let map: IImportMapJspm = pins?.length
+    ? (await generator.extractMap(pins))?.map
+    : generator.getMap();
+
+  map = isDenoTarget(flags)
+    ? toCanonicalMap(map, flags)
+    : { env, ...toCanonicalMap(map, flags) };
+
+  const diff = diffMaps(await readOutputMap(mapFile, generator.mapUrl), map);
+  if (silent) return map;
+  if (isReporting())
+    reportOutput(null, map, await labelChanges(generator, diff.changes));
+  if (!diff.env && !diff.changes.length) {
+    reportNote(`Dry run, ${c.cyan(mapFileRel)} would not change.`);
+    return map;
+  }
+
+  reportNote(
+    `Dry run, ${c.cyan(
+      mapFileRel
+    )} would be updated with the following changes:`
+  );
+  if (isPrinting())
+    await printDiff(diff, (url) => packageLabel(generator, url));
+  return map;
+}
+
+// Labels the URL of a mapping with its package, such as "lit@2.7.0":
+async function packageLabel(
+  generator: Generator,
+  url: string
+): Promise<string | null> {
+  const parsed = await generator.traceMap.resolver.parseUrlPkg(
+    new URL(url, generator.mapUrl).href
+  );
+  // The "nodemodules" provider doesn't have meaningful versions in URLs:
+  if (!parsed || parsed.pkg.registry === "node_modules") return null;
+  return `${parsed.pkg.name}@${parsed.pkg.version}`;
+}
+
+async function labelChanges(
+  generator: Generator,
+  changes: MapChange[]
+): Promise<PackageChange[]> {
+  return Promise.all(
+    changes.map(async (change) => {
+      const fromPackage = change.from
+        ? await packageLabel(generator, change.from)
+        : null;
+      const toPackage = change.to
+        ? await packageLabel(generator, change.to)
+        : null;
+      return {
+        ...change,
+        ...(fromPackage && { fromPackage }),
+        ...(toPackage && { toPackage }),
+      };
+    })
+  );
+}
+
+// Reads the import map that is currently in the given output file, if any:
+async function readOutputMap(
+  mapFile: string,
+  mapUrl: URL
+): Promise<IImportMapJspm> {
+  let source: string;
+  try {
+    source = await fs.readFile(mapFile, "utf-8");
+  } catch {
+    return {};
+  }
+
+  try {
+    if (mapFile.endsWith(".html"))
+      return readHtmlMap(source, mapUrl);
+    if (isDenoConfig(mapFile)) return readDenoMap(source, mapFile);
+    return JSON.parse(source);
+  } catch {
+    return {};
+  }
 }
 
 async function writeStdoutOutput(
   generator: Generator,
   pins: string[] | null,
+  flags: Flags,
   silent = false
 ) {
   let map: IImportMapJspm = pins?.length
     ? (await generator.extractMap(pins))?.map
     : generator.getMap();
-  map = { ...map };
+  map = { ...toCanonicalMap(map, flags) };
 
-  !silent && console.log(JSON.stringify(map, null, 2));
+  // Without printing, the map is only part of the result:
+  !silent && isPrinting() && console.log(JSON.stringify(map, null, 2));
   return map;
 }
 
@@ -100,18 +334,19 @@ async function writeHtmlOutput(
 ) {
   // Don't write an output file without permission:
   if (!(await canWrite(mapFile)))
-    throw new JspmError(
-      `JSPM does not have permission to write to ${mapFile}.`
+    throw new PermissionError(
+      `JSPM does not have permission to write to ${mapFile}.`,
+      {
+        hint: `Check the permissions of ${mapFile}, or write to a different file with ${c.bold(
+          "--output"
+        )}.`,
+      }
     );
 
   const mapFileRel = path.relative(process.cwd(), mapFile);
   if (!(await exists(mapFile))) {
     !silent &&
-      console.warn(
-        `${c.cyan(
-          "Note:"
-        )} HTML file ${mapFileRel} does not exist, creating one.`
-      );
+      reportNote(`HTML file ${mapFileRel} does not exist, creating one.`);
     await fs.writeFile(mapFile, defaultHtmlTemplate, "utf-8");
   }
 
@@ -119,24 +354,92 @@ async function writeHtmlOutput(
   try {
     html = await fs.readFile(mapFile, "utf-8");
   } catch (e) {
-    throw new JspmError(
-      `Failed to read HTML file ${c.cyan(mapFile)} for injection.`
+    throw new PermissionError(
+      `Failed to read HTML file ${c.cyan(mapFile)} for injection.`,
+      { cause: e, hint: `Check the permissions of ${mapFile}.` }
     );
   }
 
-  // TODO: Inject env into the import map somehow.
-  const outputHtml = await generator.htmlInject(html, {
-    pins: pins ?? true,
-    htmlUrl: generator.mapUrl, // URL of the output map
+  let outputHtml = await injectHtml(
+    generator,
+    html,
+    pins ?? true,
+    generator.mapUrl, // URL of the output map
+    flags
+  );
+  outputHtml = setHtmlEnv(outputHtml, env, generator.mapUrl);
+
+  outputHtml = toCanonicalHtml(outputHtml, generator.mapUrl, flags);
+  await fs.writeFile(mapFile, outputHtml);
+  !silent && reportOk(`Updated ${c.cyan(mapFileRel)}`);
+  return readHtmlMap(outputHtml, generator.mapUrl);
+}
+
+/**
+ * Reads the import map in an HTML source, along with the environment that it
+ * was generated for, if it was recorded.
+ */
+function readHtmlMap(html: string, htmlUrl: URL): IImportMapJspm {
+  const { map } = analyzeHtml(html, htmlUrl);
+  const env = map.newScript ? null : map.attrs[htmlEnvAttr]?.value;
+  return {
+    ...(env && { env: env.split(",").filter(Boolean) }),
+    ...map.json,
+  };
+}
+
+// Records the environment of the import map in an HTML source:
+function setHtmlEnv(html: string, env: string[], htmlUrl: URL): string {
+  const { map } = analyzeHtml(html, htmlUrl);
+  if (map.newScript) return html;
+  const attr = map.attrs[htmlEnvAttr];
+  if (attr?.value != null)
+    return (
+      html.slice(0, attr.end - attr.value.length) +
+      env.join(",") +
+      html.slice(attr.end)
+    );
+  // The attribute goes after the type of the script, which is always set:
+  const { type } = map.attrs;
+  const insertAt = type.end + type.quote.length;
+  return `${html.slice(0, insertAt)} ${htmlEnvAttr}="${env.join(
+    ","
+  )}"${html.slice(insertAt)}`;
+}
+
+/**
+ * Injects the import map for the given pins into an HTML source, along with
+ * the preloads and integrity attributes requested in the flags. Preload
+ * strategies other than the generator's own are applied after injection.
+ */
+export async function injectHtml(
+  generator: Generator,
+  html: string,
+  pins: string[] | true,
+  htmlUrl: URL,
+  flags: Flags,
+  esModuleShims = true
+): Promise<string> {
+  const strategy = flags.preloadStrategy ? getPreloadStrategy(flags) : null;
+  const output = await generator.htmlInject(html, {
+    pins,
+    htmlUrl,
     rootUrl: generator.rootUrl,
-    preload: flags.preload,
+    preload: !strategy && !!flags.preload,
     integrity: flags.integrity,
     whitespace: !flags.compact,
+    esModuleShims,
     comment: false,
   });
-
-  await fs.writeFile(mapFile, outputHtml);
-  !silent && console.warn(`${c.green("Ok:")} Updated ${c.cyan(mapFileRel)}`);
+  if (!strategy) return output;
+
+  return setHtmlPreloads(
+    output,
+    await getPreloads(generator, pins, strategy, flags),
+    htmlUrl,
+    generator.rootUrl,
+    !flags.compact
+  );
 }
 
 async function writeJsonOutput(
@@ -157,19 +460,45 @@ async function writeJsonOutput(
     log(`Extracting full map`);
     map = generator.getMap();
   }
-  map = { env, ...map };
+  // Deno warns about unknown fields, so the environment isn't recorded for
+  // the import maps of Deno configurations:
+  map = isDenoTarget(flags)
+    ? toCanonicalMap(map, flags)
+    : { env, ...toCanonicalMap(map, flags) };
   log(`${JSON.stringify(map, null, 2)}`);
 
   // Don't write an output file without permission:
   if (!(await canWrite(mapFile)))
-    throw new JspmError(
-      `JSPM does not have permission to write to ${mapFile}.`
+    throw new PermissionError(
+      `JSPM does not have permission to write to ${mapFile}.`,
+      {
+        hint: `Check the permissions of ${mapFile}, or write to a different file with ${c.bold(
+          "--output"
+        )}.`,
+      }
     );
 
-  // If the JSON file already exists, extend it in case of other custom properties
-  // (this way we can install into deno.json without destroying configurations)
+  const mapFileRel = path.relative(process.cwd(), mapFile);
+  if (isDenoConfig(mapFile)) {
+    // Deno configurations are edited in place, keeping their comments and
+    // other fields:
+    let source: string | undefined;
+    try {
+      source = await fs.readFile(mapFile, "utf8");
+    } catch {}
+    await fs.writeFile(mapFile, writeDenoMap(source, map, flags.compact));
+    !silent && reportOk(`Updated ${c.cyan(mapFileRel)}`);
+    return map;
+  }
+
+  // If the JSON file already exists, extend it in case of other custom properties:
   try {
     const existing = JSON.parse(await fs.readFile(mapFile, "utf8"));
+
+    // Import map fields that the final map no longer has are dropped, such
+    // as the scopes once the last scoped package is uninstalled:
+    for (const field of ["imports", "scopes", "integrity"])
+      if (!(field in map)) delete existing[field];
     map = Object.assign({}, existing, map);
   } catch {}
 
@@ -178,15 +507,21 @@ async function writeJsonOutput(
     mapFile,
     flags.compact ? JSON.stringify(map) : JSON.stringify(map, null, 2)
   );
-
-  const mapFileRel = path.relative(process.cwd(), mapFile);
-  !silent && console.warn(`${c.green("Ok:")} Updated ${c.cyan(mapFileRel)}`);
+  !silent && reportOk(`Updated ${c.cyan(mapFileRel)}`);
   return map;
 }
 
+// Resolver caches shared by the generators of an environment matrix run,
+// which are kept per async context so that concurrent runs don't share them:
+const matrixCaches = new AsyncLocalStorage<{
+  pcfgs?: Generator["traceMap"]["resolver"]["pcfgs"];
+  pcfgPromises?: Generator["traceMap"]["resolver"]["pcfgPromises"];
+}>();
+
 export async function getGenerator(
   flags: Flags,
-  setEnv = true
+  setEnv = true,
+  setInputMap = true
 ): Promise<Generator> {
   const log = withType("utils/getGenerator");
   const mapUrl = getOutputMapUrl(flags);
@@ -196,18 +531,144 @@ export async function getGenerator(
     `Creating generator with mapUrl ${mapUrl}, baseUrl ${baseUrl}, rootUrl ${rootUrl}`
   );
 
-  return new Generator({
+  const generator = new Generator({
     mapUrl,
     baseUrl,
     rootUrl,
-    inputMap: await getInputMap(flags),
+    inputMap: setInputMap
+      ? await span("input parse", () => getInputMap(flags))
+      : undefined,
     env: setEnv ? await getEnv(flags) : undefined,
     defaultProvider: getProvider(flags),
+    customProviders: {
+      ...getMirrorProviders(flags),
+      ...getCustomProviders(flags),
+    },
     resolutions: getResolutions(flags),
     cache: getCacheMode(flags),
     freeze: flags.freeze,
     commonJS: true, // TODO: only for --local flag
   });
+
+  // The generator logs every resolution and fetch, which is only recorded
+  // by sinks at the trace level:
+  if (isLogLevel("trace"))
+    (async () => {
+      for await (const { type, message } of generator.logStream())
+        logEntry(`generator/${type}`, message, "trace");
+    })();
+
+  // Package configurations don't depend on the environment, so generators
+  // for the variants of an environment matrix share them:
+  const matrixCache = matrixCaches.getStore();
+  if (matrixCache) {
+    const { resolver } = generator.traceMap;
+    if (!matrixCache.pcfgs) {
+      matrixCache.pcfgs = resolver.pcfgs;
+      matrixCache.pcfgPromises = resolver.pcfgPromises;
+    } else {
+      resolver.pcfgs = matrixCache.pcfgs;
+      resolver.pcfgPromises = matrixCache.pcfgPromises;
+    }
+  }
+
+  return generator;
+}
+
+/**
+ * Runs a command once for every environment set in the "--env-matrix" flag,
+ * such as "production,browser;development,browser". The output file names
+ * are templated with the environment set, by replacing "{env}" in the map
+ * and output flags, and the outputs of the runs are returned in order.
+ */
+export async function withEnvMatrix<T>(
+  flags: Flags,
+  fn: (flags: Flags) => Promise<T>
+): Promise<T[]> {
+  const log = withType("utils/withEnvMatrix");
+  const envSets = getEnvMatrix(flags);
+  if (flags.stdout)
+    throw new JspmError(`The --env-matrix flag cannot be used with --stdout.`);
+
+  // Without a template, the environment set is added to the output file name
+  // before its extension, such as "importmap.{env}.json":
+  let output = flags.output || flags.map || defaultInputPath;
+  if (!output.includes("{env}") && !flags.map?.includes("{env}")) {
+    const ext = path.extname(output);
+    output = `${output.slice(0, output.length - ext.length)}.{env}${ext}`;
+  }
+
+  const baseEnv = Array.isArray(flags.env)
+    ? flags.env
+    : (flags.env || "").split(",").filter(Boolean);
+
+  const outputs: T[] = [];
+  await matrixCaches.run({}, async () => {
+    for (const envSet of envSets) {
+      const name = envSet.join("-");
+      const variant: Flags = {
+        ...flags,
+        envMatrix: undefined,
+        env: [...baseEnv, ...envSet],
+        output: output.replaceAll("{env}", name),
+        map: (flags.map || output).replaceAll("{env}", name),
+      };
+      log(`Running environment set "${name}": ${JSON.stringify(variant)}`);
+      outputs.push(await fn(variant));
+    }
+  });
+
+  return outputs;
+}
+
+function getEnvMatrix(flags: Flags): string[][] {
+  const matrix = Array.isArray(flags.envMatrix)
+    ? flags.envMatrix.join(";")
+    : flags.envMatrix;
+  const envSets = matrix
+    .split(";")
+    .map((set) =>
+      set
+        .split(",")
+        .map((e) => e.trim())
+        .filter(Boolean)
+    )
+    .filter((set) => set.length);
+
+  if (!envSets.length)
+    throw new JspmError(
+      `Invalid environment matrix "${matrix}", expected semicolon-separated environment sets such as ${c.bold(
+        "--env-matrix production,browser;development,browser"
+      )}.`
+    );
+  return envSets;
+}
+
+/**
+ * Returns the paths of the local modules that the generator has traced, which
+ * are the traced file URLs that aren't in a node_modules folder.
+ */
+export function getLocalModules(generator: Generator): string[] {
+  return Object.keys(generator.traceMap.tracedUrls)
+    .filter(isLocalModule)
+    .map((url) => fileURLToPath(url));
+}
+
+/**
+ * Drops the traces of the given local modules from the generator, or of all
+ * local modules if none are given, so that they are traced again the next
+ * time they're linked. Package traces are kept.
+ */
+export function invalidateLocalModules(generator: Generator, files?: string[]) {
+  const urls = files?.map((file) => pathToFileURL(file).href);
+  for (const url of Object.keys(generator.traceMap.tracedUrls)) {
+    if (isLocalModule(url) && (!urls || urls.includes(url)))
+      delete generator.traceMap.tracedUrls[url];
+  }
+}
+
+function isLocalModule(url: string): boolean {
+  return url.startsWith("file:") && !url.includes("/node_modules/");
 }
 
 export async function getInput(flags: Flags): Promise<string | undefined> {
@@ -216,12 +677,21 @@ export async function getInput(flags: Flags): Promise<string | undefined> {
   if (!(await canRead(mapFile))) {
     if (mapFile === defaultInputPath) return undefined;
     else
-      throw new JspmError(`JSPM does not have permission to read ${mapFile}.`);
+      throw new PermissionError(
+        `JSPM does not have permission to read ${mapFile}.`,
+        { hint: `Check the permissions of ${mapFile}.` }
+      );
   }
-  return fs.readFile(mapFile, "utf-8");
+  // Deno configurations are read as their import map, without comments:
+  let source = await fs.readFile(mapFile, "utf-8");
+  if (isDenoConfig(mapFile))
+    source = JSON.stringify(readDenoMap(source, mapFile), null, 2);
+
+  // Input maps are resolved against the registry mirrors, if there are any:
+  return toMirrorUrls(source, flags);
 }
 
-async function getInputMap(flags: Flags): Promise<IImportMapJspm> {
+export async function getInputMap(flags: Flags): Promise<IImportMapJspm> {
   let inputMap;
 
   const input = await getInput(flags);
@@ -231,13 +701,17 @@ async function getInputMap(flags: Flags): Promise<IImportMapJspm> {
       inputMap = JSON.parse(input) as IImportMapJspm;
     } catch {
       try {
-        const analysis = analyzeHtml(input, mapUrl);
-        inputMap = analysis.map;
+        inputMap = readHtmlMap(input, mapUrl);
       } catch {
-        throw new JspmError(
+        throw new ParseError(
           `Input map "${getInputPath(
             flags
-          )}" is neither a valid JSON or a HTML file containing an inline import map.`
+          )}" is neither a valid JSON or a HTML file containing an inline import map.`,
+          {
+            hint: `Fix the syntax of the file, or use a different input map with ${c.bold(
+              "--map"
+            )}.`,
+          }
         );
       }
     }
@@ -247,14 +721,23 @@ async function getInputMap(flags: Flags): Promise<IImportMapJspm> {
 }
 
 export function getInputPath(flags: Flags): string {
-  return path.resolve(process.cwd(), flags.map || defaultInputPath);
+  return followDenoConfig(getMapFile(flags.map));
 }
 
 export function getOutputPath(flags: Flags): string | undefined {
-  return path.resolve(
-    process.cwd(),
-    flags.output || flags.map || defaultInputPath
-  );
+  return followDenoConfig(getMapFile(flags.output || flags.map));
+}
+
+// Whether the output map is a Deno configuration, or the import map that one
+// points to:
+export function isDenoTarget(flags: Flags): boolean {
+  return isDenoConfig(getMapFile(flags.output || flags.map));
+}
+
+// Resolves the given map file, which defaults to importmap.json. Deno
+// configurations are only used when they're given explicitly:
+function getMapFile(file: string | undefined): string {
+  return path.resolve(process.cwd(), file || defaultInputPath);
 }
 
 function getOutputMapUrl(flags: Flags): URL {
@@ -266,7 +749,8 @@ function getRootUrl(flags: Flags): URL {
   return pathToFileURL(path.resolve(process.cwd(), flags.root));
 }
 
-const excludeDefinitions = {
+// Environment names, with the names that they exclude when they are set:
+export const excludeDefinitions = {
   production: ["development"],
   development: ["production"],
   node: ["browser", "deno"],
@@ -301,7 +785,9 @@ export async function getEnv(flags: Flags) {
         .split(",")
         .map((e) => e.trim())
         .filter(Boolean);
-  let env = inputMap.env || ["development", "browser", "module"];
+  let env =
+    inputMap.env ||
+    (isDenoTarget(flags) ? [...denoEnv] : ["development", "browser", "module"]);
   env = removeEnvs(
     env,
     envFlags.filter((env) => env.startsWith("no-")).map((env) => env.slice(3))
@@ -315,11 +801,16 @@ export async function getEnv(flags: Flags) {
 }
 
 function getProvider(flags: Flags) {
-  if (flags.provider && !availableProviders.includes(flags.provider))
-    throw new JspmError(
+  const providers = [
+    ...availableProviders,
+    ...Object.keys(flags.customProviders || {}),
+  ];
+  if (flags.provider && !providers.includes(flags.provider))
+    throw new ProviderError(
       `Invalid provider "${
         flags.provider
-      }". Available providers are: "${availableProviders.join('", "')}".`
+      }". Available providers are: "${providers.join('", "')}".`,
+      { hint: didYouMean(flags.provider, providers) }
     );
   return flags.provider;
 }
@@ -350,7 +841,7 @@ function getResolutions(flags: Flags): Record<string, string> {
   );
 }
 
-const validCacheModes = ["online", "offline", "no-cache"];
+export const validCacheModes = ["online", "offline", "no-cache"];
 function getCacheMode(flags: Flags): "offline" | boolean {
   if (!flags.cache) return true;
   if (!validCacheModes.includes(flags.cache))
@@ -363,7 +854,8 @@ function getCacheMode(flags: Flags): "offline" | boolean {
         "offline"
       )}  Use a locally cached module if available, even if stale.\n\t${c.bold(
         "no-cache"
-      )} Never use the local cache.`
+      )} Never use the local cache.`,
+      { hint: didYouMean(flags.cache, validCacheModes) }
     );
 
   if (flags.cache === "offline") return "offline";
@@ -374,13 +866,15 @@ function getCacheMode(flags: Flags): "offline" | boolean {
 const spinner = ora({ spinner: "dots" });
 
 export function startSpinner(text: string) {
+  // Spinners would garble log entries printed to stderr:
+  if (!isPrinting() || isConsoleLogging()) return;
   spinner.start(text);
 }
 export function stopSpinner() {
   spinner.stop();
 }
 
-async function exists(file: string) {
+export async function exists(file: string) {
   try {
     await fs.access(file);
     return true;
@@ -0,0 +1,86 @@
+import { type FSWatcher, watch } from "node:fs";
+import { withType } from "./logger";
+import { reportFailure } from "./utils";
+
+export interface FileWatcher {
+  // Replaces the set of watched files with the given files:
+  watch(files: string[]): void;
+  files(): string[];
+  close(): void;
+}
+
+/**
+ * Creates a watcher for a changing set of files. Changes are debounced by the
+ * given delay, and the callback is never run again before the previous call
+ * has finished, so it's safe to relink from it. Errors of the callback are
+ * reported, and files keep being watched.
+ */
+export function createWatcher(
+  onChange: (files: string[]) => Promise<void>,
+  delay = 100
+): FileWatcher {
+  const log = withType("watcher/createWatcher");
+  const watchers = new Map<string, FSWatcher>();
+  const changed = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running: Promise<void> | null = null;
+
+  function schedule() {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      if (running) {
+        running.then(schedule);
+        return;
+      }
+      const files = [...changed];
+      changed.clear();
+      log(`Changed: ${files.join(", ")}`);
+      running = onChange(files)
+        .catch((e) => {
+          log(`Failed to handle changes: ${e?.stack ?? e}`);
+          reportFailure(e, {});
+        })
+        .finally(() => (running = null));
+    }, delay);
+  }
+
+  return {
+    watch(files: string[]) {
+      for (const [file, watcher] of watchers) {
+        if (files.includes(file)) continue;
+        watcher.close();
+        watchers.delete(file);
+      }
+      for (const file of files) {
+        if (watchers.has(file)) continue;
+        try {
+          const watcher = watch(file, (event) => {
+            // Editors that save by renaming replace the watched file, which
+            // has to be watched again by the next call to watch():
+            if (event === "rename") {
+              watcher.close();
+              watchers.delete(file);
+            }
+            changed.add(file);
+            schedule();
+          });
+          watchers.set(file, watcher);
+        } catch {
+          // The file doesn't exist (anymore), there's nothing to watch.
+        }
+      }
+      log(`Watching: ${[...watchers.keys()].join(", ")}`);
+    },
+
+    files() {
+      return [...watchers.keys()];
+    },
+
+    close() {
+      if (timer) clearTimeout(timer);
+      for (const watcher of watchers.values()) watcher.close();
+      watchers.clear();
+    },
+  };
+}
@@ -0,0 +1,170 @@
+import path from "path";
+import c from "picocolors";
+import { withConfig } from "./config";
+import { getPackageName } from "./dependencies";
+import { JspmError, didYouMean } from "./errors";
+import {
+  type GraphEdge,
+  type GraphNode,
+  getDependencyRange,
+  nodeLabel,
+  traceGraph,
+} from "./graph";
+import { span, withType } from "./logger";
+import { reportResult } from "./report";
+import type { Flags } from "./types";
+import {
+  getEnv,
+  getGenerator,
+  getInput,
+  getInputPath,
+  parsePackageSpec,
+  startSpinner,
+  stopSpinner,
+} from "./utils";
+
+export interface WhyStep {
+  specifier: string;
+  name: string;
+  version?: string;
+  registry?: string;
+
+  // The version range the parent declares for this dependency, if any. For
+  // top-level imports this is the range in the local package.json:
+  range?: string;
+}
+
+export interface WhyResult {
+  name: string;
+  version?: string;
+  registry?: string;
+  provider?: string;
+  url: string;
+
+  // Every chain of dependencies from a top-level import to this copy:
+  chains: WhyStep[][];
+}
+
+export default async function why(pkg: string, flags: Flags) {
+  const log = withType("why/why");
+
+  log(`Explaining package: ${pkg}`);
+  flags = await withConfig("why", flags);
+  log(`Flags: ${JSON.stringify(flags)}`);
+
+  const input = await getInput(flags);
+  const mapFileRel = path.relative(process.cwd(), getInputPath(flags));
+  if (!input)
+    throw new JspmError(
+      `Cannot explain "${pkg}", ${mapFileRel} does not exist or is empty.`
+    );
+
+  const env = await getEnv(flags);
+  const generator = await getGenerator(flags);
+  const pins = await span("input parse", () => generator.addMappings(input));
+
+  log(`Input map parsed: ${input}`);
+
+  !flags.silent &&
+    !flags.json &&
+    startSpinner(`Tracing ${c.bold(mapFileRel)}. (${env.join(", ")})`);
+  const graph = await traceGraph(generator, pins);
+
+  const name = parsePackageSpec(pkg);
+  const version = pkg.slice(name.length + 1) || undefined;
+  const targets = [...graph.nodes.values()].filter(
+    (node) => node.name === name && (!version || node.version === version)
+  );
+  if (!targets.length) {
+    stopSpinner();
+    throw new JspmError(`Package "${pkg}" is not in ${mapFileRel}.`, {
+      code: "ERR_NOT_INSTALLED",
+      hint: didYouMean(
+        name,
+        [...graph.nodes.values()].map((node) => node.name)
+      ),
+    });
+  }
+
+  const results: WhyResult[] = [];
+  for (const target of targets) {
+    const chains: WhyStep[][] = [];
+    for (const edges of findChains(graph.roots, target)) {
+      const chain: WhyStep[] = [];
+      let parentUrl = generator.baseUrl.href;
+      for (const { specifier, node } of edges) {
+        chain.push({
+          specifier,
+          name: node.name,
+          version: node.version,
+          registry: node.registry,
+          range: await getDependencyRange(
+            generator,
+            parentUrl,
+            getPackageName(specifier)
+          ),
+        });
+        parentUrl = node.url;
+      }
+      chains.push(chain);
+    }
+
+    results.push({
+      name: target.name,
+      version: target.version,
+      registry: target.registry,
+      provider: target.provider,
+      url: target.url,
+      chains,
+    });
+  }
+  stopSpinner();
+
+  if (flags.json) {
+    reportResult(results);
+  } else if (!flags.silent) {
+    for (const result of results) {
+      console.log(
+        `${c.bold(nodeLabel(result))}${
+          result.provider ? ` ${c.dim(`(${result.provider})`)}` : ""
+        }`
+      );
+      result.chains.forEach((chain, i) => {
+        console.log(`  ${i + 1}. ${chain.map(formatStep).join(" → ")}`);
+      });
+      if (results.length > 1) console.log();
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Returns every chain of edges from one of the roots to the target node,
+ * ignoring chains that pass through the same node more than once.
+ */
+function findChains(roots: GraphEdge[], target: GraphNode): GraphEdge[][] {
+  const chains: GraphEdge[][] = [];
+  const seen = new Set<GraphNode>();
+  const walk = (edge: GraphEdge, chain: GraphEdge[]) => {
+    if (seen.has(edge.node)) return;
+    chain = [...chain, edge];
+    if (edge.node === target) {
+      chains.push(chain);
+      return;
+    }
+
+    seen.add(edge.node);
+    for (const dep of edge.node.deps) walk(dep, chain);
+    seen.delete(edge.node);
+  };
+
+  for (const root of roots) walk(root, []);
+  return chains;
+}
+
+function formatStep(step: WhyStep): string {
+  let label = nodeLabel(step);
+  if (step.range) label += ` ${c.dim(`(${step.range})`)}`;
+  return label;
+}
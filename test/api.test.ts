@@ -0,0 +1,59 @@
+import assert from "assert";
+import { spyOn } from "tinyspy";
+import { JspmError, install, uninstall, update } from "../src/api";
+import {
+  type Scenario,
+  mapNodeModulesFixture,
+  runScenarios,
+} from "./scenarios";
+
+const files = await mapNodeModulesFixture();
+
+const scenarios: Scenario[] = [
+  {
+    files,
+    commands: [],
+    validationFn: async () => {
+      // The API shouldn't print anything or set an exit code:
+      const output: unknown[] = [];
+      const spies = ["log", "warn", "error"].map((method) =>
+        spyOn(console, method as "log", (msg) => output.push(msg))
+      );
+      try {
+        let result = await install(["lit"], { provider: "nodemodules" });
+        assert.strictEqual(result.output, "importmap.json");
+        assert(result.map.imports.lit);
+        assert(
+          result.changes.some(
+            (change) => change.specifier === "lit" && change.type === "added"
+          )
+        );
+
+        // Dry runs return the map without writing it:
+        result = await uninstall(["lit"], { dryRun: true });
+        assert.strictEqual(result.output, null);
+        assert.strictEqual(result.map.imports?.lit, undefined);
+        result = await update([], { provider: "nodemodules" });
+        assert(result.map.imports.lit);
+        assert.deepStrictEqual(result.changes, []);
+
+        // Warnings are returned, and errors are thrown:
+        result = await uninstall([]);
+        assert.strictEqual(
+          result.warnings[0].code,
+          "WARN_NOTHING_TO_UNINSTALL"
+        );
+        await assert.rejects(
+          install(["lit"], { provider: "nodemodules", cache: "invalid" }),
+          JspmError
+        );
+      } finally {
+        spies.forEach((spy) => spy.restore());
+      }
+      assert.deepStrictEqual(output, []);
+      assert(!process.exitCode);
+    },
+  },
+];
+
+await runScenarios(scenarios);
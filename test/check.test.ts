@@ -0,0 +1,102 @@
+import assert from "assert";
+import type { CheckProblem } from "../src/check";
+import { type Scenario, runJson, runScenarios } from "./scenarios";
+
+// Runs "jspm check" with the given arguments, returning the problems it found
+// and its exit code:
+async function runCheck(args = "") {
+  const { exitCode, result, errors } = await runJson(`jspm check ${args}`);
+  return { exitCode, errors, problems: (result || []) as CheckProblem[] };
+}
+
+const importMap = JSON.stringify({
+  imports: {
+    app: "./src/app.js",
+    missing: "./src/missing.js",
+    lit: "https://ga.jspm.io/npm:lit@2.7.0/index.js",
+    insecure: "http://cdn.example.com/insecure.js",
+  },
+  scopes: {
+    "https://ga.jspm.io/": {
+      "lit-html": "https://ga.jspm.io/npm:lit-html@2.7.0/lit-html.js",
+      "lit-html/directive.js":
+        "https://ga.jspm.io/npm:lit-html@2.7.4/directive.js",
+      "@lit/reactive-element":
+        "https://unpkg.com/@lit/reactive-element@1.6.1/reactive-element.js",
+    },
+    "https://cdn.example.org/": {
+      unused: "https://ga.jspm.io/npm:lit@2.7.0/index.js",
+    },
+  },
+  integrity: {
+    "https://ga.jspm.io/npm:lit@2.7.0/index.js": "sha384-abc",
+  },
+});
+
+const scenarios: Scenario[] = [
+  {
+    files: new Map([
+      ["importmap.json", importMap],
+      ["src/app.js", "export default 'app';"],
+    ]),
+    commands: [],
+    validationFn: async () => {
+      let { exitCode, problems } = await runCheck();
+      assert.strictEqual(exitCode, 1);
+      const rules = (rule: string) =>
+        problems.filter((problem) => problem.rule === rule);
+
+      assert.deepStrictEqual(
+        rules("missing-file").map(({ specifier, severity }) => ({
+          specifier,
+          severity,
+        })),
+        [{ specifier: "missing", severity: "error" }]
+      );
+      assert.deepStrictEqual(
+        rules("insecure-url").map(({ specifier }) => specifier),
+        ["insecure"]
+      );
+      assert.deepStrictEqual(
+        rules("unused-scope").map(({ scope, severity }) => ({
+          scope,
+          severity,
+        })),
+        [{ scope: "https://cdn.example.org/", severity: "warn" }]
+      );
+      assert.strictEqual(rules("duplicate-package").length, 1);
+      assert(rules("duplicate-package")[0].message.includes("lit-html"));
+      assert.strictEqual(rules("mixed-providers").length, 1);
+      assert.strictEqual(rules("missing-integrity").length, 0);
+
+      // Integrity is only checked when it's expected:
+      ({ problems } = await runCheck("--integrity"));
+      assert.deepStrictEqual(
+        problems
+          .filter((problem) => problem.rule === "missing-integrity")
+          .map(({ specifier }) => specifier),
+        [
+          "insecure",
+          "lit-html",
+          "lit-html/directive.js",
+          "@lit/reactive-element",
+        ]
+      );
+
+      // Rules can be turned off or made into warnings, which don't fail:
+      ({ exitCode, problems } = await runCheck(
+        "--rules missing-file=warn,insecure-url=off,mixed-providers=off"
+      ));
+      assert.strictEqual(exitCode, 0);
+      assert(problems.every((problem) => problem.severity === "warn"));
+      assert(!problems.some((problem) => problem.rule === "insecure-url"));
+
+      let errors;
+      ({ exitCode, errors } = await runCheck("--rules missing-files=off"));
+      assert.strictEqual(exitCode, 1);
+      assert.strictEqual(errors[0].hint, 'Did you mean "missing-file"?');
+    },
+  },
+];
+
+await runScenarios(scenarios);
@@ -0,0 +1,75 @@
+import assert from "assert";
+import { cli } from "../src/cli";
+import { getCompletionScript } from "../src/completion";
+import {
+  type Scenario,
+  mapDirectory,
+  runCommand,
+  runJson,
+  runScenarios,
+} from "./scenarios";
+
+// Returns the values that "jspm completion --values" prints for a kind:
+async function getValues(kind: string) {
+  const { stdout } = await runCommand(`jspm completion --values ${kind}`);
+  return stdout.join("\n").split("\n");
+}
+
+{
+  // Scripts should complete the registered commands, aliases and options:
+  const bash = getCompletionScript(cli, "bash");
+  assert(bash.includes("complete -o default -F _jspm_completion jspm"));
+  assert(
+    bash.includes("uninstall|update|upgrade|dedupe|ddp|merge|ls|tree|why")
+  );
+  assert(bash.includes("-p|--provider)"));
+  assert(bash.includes("jspm completion --values packages"));
+
+  const zsh = getCompletionScript(cli, "zsh");
+  assert(zsh.startsWith("#compdef jspm"));
+  assert(
+    zsh.includes(
+      `'(-p --provider)'{-p,--provider}'[Default module provider]:provider:_jspm_values providers'`
+    )
+  );
+
+  const fish = getCompletionScript(cli, "fish");
+  assert(
+    fish.includes(
+      "complete -c jspm -n __fish_use_subcommand -a install -d 'install packages'"
+    )
+  );
+  assert(
+    fish.includes(
+      "complete -c jspm -n '__fish_seen_subcommand_from download vendor' -l vendor-dir -r -F"
+    )
+  );
+}
+
+const files = await mapDirectory("test/fixtures/scenario_provider_swap");
+
+const scenarios: Scenario[] = [
+  // Dynamic values should come from the project and its import map:
+  {
+    files,
+    commands: [],
+    validationFn: async () => {
+      assert.deepStrictEqual(await getValues("packages"), ["app", "lit"]);
+      assert.deepStrictEqual(await getValues("cache"), [
+        "online",
+        "offline",
+        "no-cache",
+      ]);
+      assert((await getValues("providers")).includes("nodemodules"));
+      assert((await getValues("env")).includes("production"));
+
+      // Unknown shells should fail with a hint:
+      const { exitCode, errors } = await runJson("jspm completion bsh");
+      assert.strictEqual(errors[0].code, "ERR_UNKNOWN_SHELL");
+      assert.strictEqual(errors[0].hint, 'Did you mean "bash"?');
+      assert.strictEqual(exitCode, 1);
+    },
+  },
+];
+
+await runScenarios(scenarios);
@@ -0,0 +1,67 @@
+import assert from "assert";
+import {
+  type Scenario,
+  mapNodeModulesFixture,
+  runScenarios,
+} from "./scenarios";
+
+const files = await mapNodeModulesFixture();
+
+const withConfig = (pjsonConfig: object, configFile?: object) => {
+  const res = new Map(files);
+  res.set(
+    "package.json",
+    JSON.stringify({
+      dependencies: { lit: "^2.7.0" },
+      jspm: pjsonConfig,
+    })
+  );
+  if (configFile) res.set("jspm.config.json", JSON.stringify(configFile));
+  return res;
+};
+
+const scenarios: Scenario[] = [
+  // Options from the "jspm" field in package.json should apply:
+  {
+    files: withConfig({ provider: "nodemodules", env: ["production"] }),
+    commands: ["jspm install lit"],
+    validationFn: async (files) => {
+      const map = JSON.parse(files.get("importmap.json"));
+      assert.strictEqual(map.imports.lit, "./node_modules/lit/index.js");
+      assert(map.env.includes("production"));
+    },
+  },
+
+  // Per-command sections should override the top-level options, and
+  // jspm.config.json should override package.json:
+  {
+    files: withConfig(
+      { provider: "nodemodules", output: "wrong.json" },
+      { commands: { install: { output: "config.importmap.json" } } }
+    ),
+    commands: ["jspm install lit"],
+    validationFn: async (files) => {
+      assert(!files.has("wrong.json"));
+      const map = JSON.parse(files.get("config.importmap.json"));
+      assert.strictEqual(map.imports.lit, "./node_modules/lit/index.js");
+    },
+  },
+
+  // Command line flags should override the project configuration:
+  {
+    files: withConfig({
+      provider: "nodemodules",
+      env: ["production"],
+      commands: { link: { output: "link.importmap.json" } },
+    }),
+    commands: ["jspm install lit -e development -o cli.importmap.json"],
+    validationFn: async (files) => {
+      assert(!files.has("link.importmap.json"));
+      const map = JSON.parse(files.get("cli.importmap.json"));
+      assert(map.env.includes("development"));
+      assert(!map.env.includes("production"));
+    },
+  },
+];
+
+runScenarios(scenarios);
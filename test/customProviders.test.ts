@@ -0,0 +1,100 @@
+import assert from "assert";
+import http from "node:http";
+import install from "../src/install";
+import { type Scenario, runScenarios } from "./scenarios";
+
+// A local server stands in for an internal CDN, with package.json files in
+// the packages and an endpoint listing the versions of each package:
+const cdnFiles = {
+  "/pkg/app@1.0.0/package.json": JSON.stringify({
+    name: "app",
+    version: "1.0.0",
+    exports: "./index.js",
+    dependencies: { dep: "^1.0.0" },
+  }),
+  "/pkg/app@1.0.0/index.js": `import dep from "dep"; export default dep;`,
+  "/pkg/dep@1.2.0/package.json": JSON.stringify({
+    name: "dep",
+    version: "1.2.0",
+    exports: "./index.js",
+  }),
+  "/pkg/dep@1.2.0/index.js": `export default "1.2.0";`,
+  "/versions/app": JSON.stringify(["1.0.0"]),
+  "/versions/dep": JSON.stringify(["1.0.0", "1.2.0", "2.0.0"]),
+  "/resolve/app/*": "1.0.0",
+  "/resolve/dep/^1.0.0": JSON.stringify({ version: "1.2.0" }),
+  "/meta/app@1.0.0.json": JSON.stringify({
+    name: "app",
+    version: "1.0.0",
+    exports: "./index.js",
+    dependencies: { dep: "^1.0.0" },
+  }),
+};
+const server = http.createServer((req, res) => {
+  const source = cdnFiles[decodeURIComponent(req.url)];
+  const type = req.url.endsWith(".js") ? "text/javascript" : "application/json";
+  res.writeHead(source ? 200 : 404, { "Content-Type": type });
+  res.end(source);
+});
+await new Promise<void>((resolve) => server.listen(0, resolve));
+const { port } = server.address() as { port: number };
+const cdn = `http://localhost:${port}`;
+
+const withProvider = (provider: object) =>
+  new Map([
+    [
+      "jspm.config.json",
+      JSON.stringify({ customProviders: { internal: provider } }),
+    ],
+  ]);
+
+const scenarios: Scenario[] = [
+  // Packages should resolve against the version listing of the provider:
+  {
+    files: withProvider({
+      packageUrl: `${cdn}/pkg/{name}@{version}/`,
+      versions: `${cdn}/versions/{name}`,
+    }),
+    commands: ["jspm install app -p internal --cache no-cache"],
+    validationFn: async (files) => {
+      const map = JSON.parse(files.get("importmap.json"));
+      assert.strictEqual(map.imports.app, `${cdn}/pkg/app@1.0.0/index.js`);
+      assert.strictEqual(
+        map.scopes[`${cdn}/`].dep,
+        `${cdn}/pkg/dep@1.2.0/index.js`
+      );
+    },
+  },
+
+  // Resolution endpoints and package.json locations can be configured too:
+  {
+    files: withProvider({
+      packageUrl: `${cdn}/pkg/{name}@{version}/`,
+      resolve: `${cdn}/resolve/{name}/{range}`,
+      packageJson: `${cdn}/meta/{name}@{version}.json`,
+    }),
+    commands: ["jspm install app -p internal --cache no-cache"],
+    validationFn: async (files) => {
+      const map = JSON.parse(files.get("importmap.json"));
+      assert.strictEqual(map.imports.app, `${cdn}/pkg/app@1.0.0/index.js`);
+      assert.strictEqual(
+        map.scopes[`${cdn}/`].dep,
+        `${cdn}/pkg/dep@1.2.0/index.js`
+      );
+    },
+  },
+
+  // Invalid provider configurations should be rejected:
+  {
+    files: withProvider({ packageUrl: `${cdn}/pkg/{name}/` }),
+    commands: [],
+    validationFn: async () => {
+      await assert.rejects(
+        install(["app"], { silent: true, provider: "internal" }),
+        /"packageUrl" must end in a "\/"|must include "\{name\}" and "\{version\}"/
+      );
+    },
+  },
+];
+
+await runScenarios(scenarios).finally(() => server.close());
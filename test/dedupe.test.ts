@@ -0,0 +1,116 @@
+import assert from "assert";
+import { type DedupeEntry, rewriteMap } from "../src/dedupe";
+import {
+  type Scenario,
+  mapDirectory,
+  runJson,
+  runScenarios,
+} from "./scenarios";
+
+{
+  // Mappings of shared scopes are only rewritten when all of the dependents in
+  // the scope were assigned the same copy:
+  const cdn = "https://ga.jspm.io/";
+  const node = (name: string, version: string) => ({
+    id: `npm:${name}@${version}`,
+    name,
+    version,
+    registry: "npm",
+    url: `${cdn}npm:${name}@${version}/`,
+    deps: [],
+  });
+  const [b1, b2] = [node("b", "1.0.0"), node("b", "1.1.0")];
+  const map = {
+    imports: { b: `${b2.url}index.js` },
+    scopes: { [cdn]: { b: `${b1.url}index.js` } },
+  };
+  const dependents = (eTarget: typeof b1) => [
+    { parentUrl: `${cdn}npm:a@1.0.0/`, parentLabel: "a", node: b1, target: b2 },
+    {
+      parentUrl: `${cdn}npm:e@1.0.0/`,
+      parentLabel: "e",
+      node: b1,
+      target: eTarget,
+    },
+  ];
+
+  const split = rewriteMap(
+    map,
+    new URL(cdn),
+    new Map([[b1, dependents(b1)]]),
+    []
+  );
+  assert.deepStrictEqual(split.scopes, {
+    [cdn]: { b: `${b1.url}index.js` },
+    [`${cdn}npm:a@1.0.0/`]: { b: `${b2.url}index.js` },
+    [`${cdn}npm:e@1.0.0/`]: { b: `${b1.url}index.js` },
+  });
+
+  const agreed = rewriteMap(
+    map,
+    new URL(cdn),
+    new Map([[b1, dependents(b2)]]),
+    [b1]
+  );
+  assert.deepStrictEqual(agreed.scopes, {});
+}
+
+const pkg = (name: string, version: string, dependencies = {}) => [
+  "package.json",
+  JSON.stringify({
+    name,
+    version,
+    type: "module",
+    main: "index.js",
+    dependencies,
+  }),
+];
+
+// Copies of "b" at 1.0.0 and 1.1.0 can be collapsed, but "d" needs 0.9.0:
+const files = new Map<string, string>();
+for (const [dir, name, version, dependencies] of [
+  ["", "app", "1.0.0", { a: "^1.0.0", b: "^1.0.0", d: "^1.0.0" }],
+  ["node_modules/a/", "a", "1.0.0", { b: "^1.0.0" }],
+  ["node_modules/a/node_modules/b/", "b", "1.0.0"],
+  ["node_modules/b/", "b", "1.1.0"],
+  ["node_modules/d/", "d", "1.0.0", { b: "^0.9.0" }],
+  ["node_modules/d/node_modules/b/", "b", "0.9.0"],
+] as [string, string, string, object?][]) {
+  const [file, source] = pkg(name, version, dependencies);
+  files.set(`${dir}${file}`, source);
+  if (dir) files.set(`${dir}index.js`, name === "b" ? "" : "import 'b';");
+}
+
+const scenarios: Scenario[] = [
+  {
+    files,
+    commands: ["jspm install a b d -p nodemodules"],
+    validationFn: async () => {
+      const { result } = await runJson("jspm dedupe -p nodemodules");
+      const [entry] = result as DedupeEntry[];
+      assert.deepStrictEqual(entry.versions, ["1.1.0", "1.0.0", "0.9.0"]);
+      assert.deepStrictEqual(entry.kept, ["1.1.0", "0.9.0"]);
+      assert.deepStrictEqual(entry.removed, ["1.0.0"]);
+      assert.deepStrictEqual(entry.reasons, [
+        "b@0.9.0 is kept, as d@1.0.0 requires ^0.9.0.",
+      ]);
+
+      // "a" should now use the top-level copy, while "d" keeps its own:
+      const readMap = async () =>
+        JSON.parse((await mapDirectory(process.cwd())).get("importmap.json"));
+      const map = await readMap();
+      assert.strictEqual(map.imports.b, "./node_modules/b/index.js");
+      assert.deepStrictEqual(map.scopes, {
+        "./node_modules/d/": {
+          b: "./node_modules/d/node_modules/b/index.js",
+        },
+      });
+
+      // Running it again should leave the map as it is:
+      await runJson("jspm dedupe -p nodemodules");
+      assert.deepStrictEqual(await readMap(), map);
+    },
+  },
+];
+
+await runScenarios(scenarios);
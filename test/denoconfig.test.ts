@@ -0,0 +1,135 @@
+import assert from "assert";
+import { parseJsonc } from "../src/jsonc";
+import { type Scenario, runScenarios } from "./scenarios";
+
+// A package with a Deno-specific entry point:
+const files = new Map([
+  ["package.json", JSON.stringify({ dependencies: { x: "^1.0.0" } })],
+  [
+    "node_modules/x/package.json",
+    JSON.stringify({
+      name: "x",
+      version: "1.0.0",
+      exports: { deno: "./deno.js", default: "./index.js" },
+    }),
+  ],
+  ["node_modules/x/deno.js", "export default 'deno';"],
+  ["node_modules/x/index.js", "export default 'browser';"],
+  ["y.js", "export default 'y';"],
+]);
+
+const scenarios: Scenario[] = [
+  // Deno configurations given as the map are written in place with comments:
+  {
+    files: new Map([
+      ...files,
+      [
+        "deno.jsonc",
+        `{
+  // Tasks for the project:
+  "tasks": { "start": "deno run main.js" },
+  "imports": {
+    "y": "./y.js", // kept
+  },
+}
+`,
+      ],
+    ]),
+    commands: ["jspm install x -p nodemodules -m deno.jsonc"],
+    validationFn: async (files) => {
+      assert(!files.has("importmap.json"));
+      const source = files.get("deno.jsonc");
+      assert(source.includes("// Tasks for the project:"));
+
+      const config = parseJsonc(source);
+      assert.deepStrictEqual(config.tasks, { start: "deno run main.js" });
+      assert.deepStrictEqual(config.imports, {
+        x: "./node_modules/x/deno.js",
+        y: "./y.js",
+      });
+      assert.strictEqual(config.env, undefined);
+    },
+  },
+
+  // Without "--map", the import map is importmap.json even with a Deno
+  // configuration, whose "importMap" isn't followed:
+  {
+    files: new Map([
+      ...files,
+      ["deno.json", JSON.stringify({ importMap: "maps/appmap.json" })],
+      ["maps/appmap.json", JSON.stringify({ imports: {} })],
+    ]),
+    commands: ["jspm install x -p nodemodules"],
+    validationFn: async (files) => {
+      assert.deepStrictEqual(JSON.parse(files.get("maps/appmap.json")), {
+        imports: {},
+      });
+      assert.strictEqual(
+        JSON.parse(files.get("importmap.json")).imports.x,
+        "./node_modules/x/index.js"
+      );
+    },
+  },
+
+  // The "importMap" field is followed for both input and output:
+  {
+    files: new Map([
+      ...files,
+      ["deno.json", JSON.stringify({ importMap: "maps/appmap.json" })],
+      ["maps/appmap.json", JSON.stringify({ imports: {} })],
+    ]),
+    commands: ["jspm install x -p nodemodules -m deno.json"],
+    validationFn: async (files) => {
+      assert(!files.has("importmap.json"));
+      assert.deepStrictEqual(JSON.parse(files.get("deno.json")), {
+        importMap: "maps/appmap.json",
+      });
+      assert.deepStrictEqual(JSON.parse(files.get("maps/appmap.json")), {
+        imports: { x: "../node_modules/x/deno.js" },
+      });
+    },
+  },
+
+  // Imports are added after the comments on the line of the last property:
+  {
+    files: new Map([
+      ...files,
+      [
+        "deno.jsonc",
+        `{ // Tasks for the project:
+  "tasks": { "start": "deno run main.js" }, // trailing
+}
+`,
+      ],
+    ]),
+    commands: ["jspm install x -p nodemodules -m deno.jsonc"],
+    validationFn: async (files) => {
+      assert.strictEqual(
+        files.get("deno.jsonc"),
+        `{ // Tasks for the project:
+  "tasks": { "start": "deno run main.js" }, // trailing
+  "imports": {
+    "x": "./node_modules/x/deno.js"
+  }
+}
+`
+      );
+    },
+  },
+  {
+    files: new Map([...files, ["deno.json", `{ "lock": false /* c */ }`]]),
+    commands: ["jspm install x -p nodemodules -m deno.json"],
+    validationFn: async (files) => {
+      assert.strictEqual(
+        files.get("deno.json"),
+        `{ "lock": false, /* c */
+  "imports": {
+    "x": "./node_modules/x/deno.js"
+  }
+}`
+      );
+    },
+  },
+];
+
+await runScenarios(scenarios);
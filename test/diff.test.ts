@@ -0,0 +1,75 @@
+import assert from "assert";
+import { diffMaps } from "../src/diff";
+import {
+  type Scenario,
+  mapNodeModulesFixture,
+  runScenarios,
+} from "./scenarios";
+
+{
+  // Check that added, removed and changed mappings are found in all scopes:
+  const diff = diffMaps(
+    {
+      env: ["browser", "development", "module"],
+      imports: {
+        lit: "https://ga.jspm.io/npm:lit@2.5.0/index.js",
+        react: "https://ga.jspm.io/npm:react@17.0.1/index.js",
+      },
+      scopes: {
+        "https://ga.jspm.io/": {
+          "lit-html": "https://ga.jspm.io/npm:lit-html@2.6.1/lit-html.js",
+        },
+      },
+    },
+    {
+      env: ["browser", "production", "module"],
+      imports: {
+        lit: "https://ga.jspm.io/npm:lit@2.7.0/index.js",
+        "lit-html": "https://ga.jspm.io/npm:lit-html@2.7.0/lit-html.js",
+      },
+    }
+  );
+
+  assert.deepStrictEqual(diff.env, {
+    from: ["browser", "development", "module"],
+    to: ["browser", "production", "module"],
+  });
+  assert.deepStrictEqual(
+    diff.changes.map(({ scope, specifier, type }) => [scope, specifier, type]),
+    [
+      [null, "lit", "changed"],
+      [null, "lit-html", "added"],
+      [null, "react", "removed"],
+      ["https://ga.jspm.io/", "lit-html", "removed"],
+    ]
+  );
+
+  // Identical maps should have no changes, regardless of env ordering:
+  const same = diffMaps(
+    { env: ["module", "browser"], imports: { a: "./a.js" } },
+    { env: ["browser", "module"], imports: { a: "./a.js" } }
+  );
+  assert.strictEqual(same.env, null);
+  assert.deepStrictEqual(same.changes, []);
+}
+
+const files = await mapNodeModulesFixture();
+
+const scenarios: Scenario[] = [
+  // A dry run should leave the map as it is:
+  {
+    files,
+    commands: [
+      "jspm install lit -p nodemodules",
+      "jspm uninstall lit --dry-run",
+      "jspm install lit/decorators.js -o other.importmap.json --dry-run",
+    ],
+    validationFn: async (files) => {
+      const map = JSON.parse(files.get("importmap.json"));
+      assert(map.imports.lit);
+      assert(!files.has("other.importmap.json"));
+    },
+  },
+];
+
+runScenarios(scenarios);
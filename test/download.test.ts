@@ -0,0 +1,104 @@
+import assert from "assert";
+import fs from "fs/promises";
+import http from "node:http";
+import download from "../src/download";
+import { type Scenario, runScenarios } from "./scenarios";
+
+// A local server stands in for a CDN, so that this works offline. Providers
+// can't resolve packages on it, so the modules import each other by URL:
+const modules = {
+  "/app@1.0.0/index.js": `import dep from "../dep@1.0.0/index.js"; export default dep;`,
+  "/dep@1.0.0/index.js": `export default import("./lazy.js");`,
+  "/dep@1.0.0/lazy.js": `export default 42;`,
+  "/x/..%2F..%2F..%2Fescape.js": `export default "escape";`,
+};
+const server = http.createServer((req, res) => {
+  const source = modules[req.url];
+  res.writeHead(source ? 200 : 404, { "Content-Type": "text/javascript" });
+  res.end(source);
+});
+await new Promise<void>((resolve) => server.listen(0, resolve));
+const { port } = server.address() as { port: number };
+const cdn = `http://localhost:${port}`;
+const vendor = `./vendor/localhost_${port}`;
+
+const files = new Map([
+  [
+    "importmap.json",
+    JSON.stringify({ imports: { app: `${cdn}/app@1.0.0/index.js` } }),
+  ],
+]);
+
+const scenarios: Scenario[] = [
+  // All reachable modules should be downloaded, including dynamic imports,
+  // and the output map should point at the downloaded copies:
+  {
+    files,
+    commands: ["jspm download --cache no-cache"],
+    validationFn: async (files) => {
+      assert.strictEqual(
+        await fs.readFile(`${vendor}/dep@1.0.0/lazy.js`, "utf-8"),
+        modules["/dep@1.0.0/lazy.js"]
+      );
+
+      const map = JSON.parse(files.get("importmap.vendor.json"));
+      assert.strictEqual(map.imports.app, `${vendor}/app@1.0.0/index.js`);
+      assert.strictEqual(Object.keys(map.integrity).length, 3);
+      assert(
+        map.integrity[`${vendor}/app@1.0.0/index.js`].startsWith("sha384-")
+      );
+
+      // Modified or missing files should fail verification:
+      await download({ silent: true, verify: true });
+      await fs.writeFile(`${vendor}/app@1.0.0/index.js`, "tampered");
+      await fs.rm(`${vendor}/dep@1.0.0/lazy.js`);
+      await assert.rejects(
+        download({ silent: true, verify: true }),
+        /app@1\.0\.0\/index\.js \(mismatch\)\n.*dep@1\.0\.0\/lazy\.js \(missing\)/
+      );
+    },
+  },
+
+  // URLs should be relative to the server root when one is given:
+  {
+    files,
+    commands: [
+      "jspm download --cache no-cache --root . --vendor-dir deps -o out.json",
+    ],
+    validationFn: async (files) => {
+      const map = JSON.parse(files.get("out.json"));
+      assert.strictEqual(
+        map.imports.app,
+        `/deps/localhost_${port}/app@1.0.0/index.js`
+      );
+      await download({
+        silent: true,
+        verify: true,
+        root: ".",
+        output: "out.json",
+      });
+    },
+  },
+
+  // Encoded paths must not escape the vendor directory:
+  {
+    files: new Map([
+      [
+        "importmap.json",
+        JSON.stringify({
+          imports: { escape: `${cdn}/x/..%2F..%2F..%2Fescape.js` },
+        }),
+      ],
+    ]),
+    commands: [],
+    validationFn: async () => {
+      await assert.rejects(
+        download({ silent: true, cache: "no-cache" }),
+        /outside of the vendor directory/
+      );
+      await assert.rejects(fs.access("escape.js"));
+    },
+  },
+];
+
+await runScenarios(scenarios).finally(() => server.close());
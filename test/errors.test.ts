@@ -0,0 +1,75 @@
+import assert from "assert";
+import {
+  NetworkError,
+  ParseError,
+  PermissionError,
+  ResolutionConflictError,
+  didYouMean,
+  toJspmError,
+} from "../src/errors";
+import { type Scenario, runJson, runScenarios } from "./scenarios";
+
+{
+  // Errors of the generator and of Node.js should be categorised:
+  const generatorError = Object.assign(
+    new Error(
+      "Unable to resolve npm:lit@^99.0.0 to a valid version imported from file:///app/"
+    ),
+    { jspmError: true }
+  );
+  assert(toJspmError(generatorError) instanceof ResolutionConflictError);
+  assert.strictEqual(toJspmError(generatorError).exitCode, 3);
+
+  const offline = Object.assign(new Error("getaddrinfo ENOTFOUND ga.jspm.io"), {
+    code: "ENOTFOUND",
+  });
+  assert(toJspmError(offline) instanceof NetworkError);
+  assert.strictEqual(toJspmError(offline).code, "ERR_NETWORK");
+  assert.strictEqual(
+    toJspmError(offline, { cache: "offline" }).code,
+    "ERR_OFFLINE_CACHE_MISS"
+  );
+
+  const denied = Object.assign(new Error("EACCES: permission denied"), {
+    code: "EACCES",
+    path: "importmap.json",
+  });
+  assert(toJspmError(denied) instanceof PermissionError);
+  assert(
+    toJspmError(new SyntaxError("Unexpected token")) instanceof ParseError
+  );
+  assert.strictEqual(toJspmError(new TypeError("internal")), null);
+
+  assert.strictEqual(
+    didYouMean("unpgk", ["unpkg", "skypack"]),
+    'Did you mean "unpkg"?'
+  );
+  assert.strictEqual(didYouMean("react", ["unpkg", "skypack"]), undefined);
+}
+
+const scenarios: Scenario[] = [
+  // Errors should carry a code, a hint and the exit code of their category:
+  {
+    files: new Map([["broken.js", "import { from 'lit';"]]),
+    commands: [],
+    validationFn: async () => {
+      let { exitCode, errors } = await runJson(
+        "jspm install lit -p nodemodule"
+      );
+      assert.strictEqual(exitCode, 4);
+      assert.strictEqual(errors[0].code, "ERR_PROVIDER");
+      assert.strictEqual(errors[0].hint, 'Did you mean "nodemodules"?');
+
+      ({ exitCode, errors } = await runJson("jspm instal lit"));
+      assert.strictEqual(exitCode, 1);
+      assert.strictEqual(errors[0].code, "ERR_UNKNOWN_COMMAND");
+      assert.strictEqual(errors[0].hint, 'Did you mean "install"?');
+
+      ({ exitCode, errors } = await runJson("jspm link ./broken.js"));
+      assert.strictEqual(exitCode, 7);
+      assert.strictEqual(errors[0].code, "ERR_PARSE");
+    },
+  },
+];
+
+await runScenarios(scenarios);
@@ -1,8 +1,27 @@
 import assert from "assert";
-import { type Scenario, mapFile, runScenarios } from "./scenarios";
+import { getEnv } from "../src/utils";
+import {
+  type Scenario,
+  mapFile,
+  mapNodeModulesFixture,
+  runScenarios,
+} from "./scenarios";
 
 const importMap = await mapFile("test/fixtures/importmap.json");
 
+const nodeModules = await mapNodeModulesFixture();
+
+// A stand-in for the import maps shim that is injected into HTML:
+nodeModules.set(
+  "node_modules/es-module-shims/package.json",
+  JSON.stringify({
+    name: "es-module-shims",
+    version: "1.7.0",
+    exports: { ".": "./dist/es-module-shims.js" },
+  })
+);
+nodeModules.set("node_modules/es-module-shims/dist/es-module-shims.js", "");
+
 const scenarios: Scenario[] = [
   {
     files: await mapFile([
@@ -71,6 +90,26 @@ const scenarios: Scenario[] = [
       assert(files.get("index.html").includes(reactIntegrity));
     },
   },
+  {
+    files: nodeModules,
+    commands: [
+      "jspm link lit -o index.html -p nodemodules -e production",
+      "jspm link lit -m index.html -p nodemodules",
+    ],
+    validationFn: async (files: Map<string, string>) => {
+      // The environment of the map should be recorded in the HTML, and used
+      // by later operations on it instead of the default environment:
+      const html = files.get("index.html");
+      assert(html.includes('data-jspm-env="browser,module,production"'));
+      assert(html.includes("./node_modules/lit-html/lit-html.js"));
+      assert(!html.includes("/development/"));
+      assert.deepStrictEqual(await getEnv({ map: "index.html" }), [
+        "browser",
+        "module",
+        "production",
+      ]);
+    },
+  },
 ];
 
 runScenarios(scenarios);
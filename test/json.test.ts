@@ -0,0 +1,63 @@
+import assert from "assert";
+import {
+  type Scenario,
+  mapNodeModulesFixture,
+  runJson,
+  runScenarios,
+} from "./scenarios";
+
+const files = await mapNodeModulesFixture();
+
+const scenarios: Scenario[] = [
+  {
+    files,
+    commands: [],
+    validationFn: async () => {
+      // Installs should report the output file, the map and its changes:
+      let result = await runJson("jspm install lit -p nodemodules");
+      assert.strictEqual(result.command, "install");
+      assert.strictEqual(result.ok, true);
+      assert.strictEqual(result.output, "importmap.json");
+      assert(result.map.imports.lit);
+      assert.deepStrictEqual(
+        result.changes
+          .filter((change) => change.scope === null)
+          .map(({ specifier, type }) => ({ specifier, type })),
+        [{ specifier: "lit", type: "added" }]
+      );
+      assert.deepStrictEqual(result.warnings, []);
+      assert.deepStrictEqual(result.errors, []);
+
+      // Dry runs have changes but no output file:
+      result = await runJson("jspm uninstall lit --dry-run");
+      assert.strictEqual(result.output, null);
+      assert(
+        result.changes.some(
+          (change) => change.specifier === "lit" && change.type === "removed"
+        )
+      );
+
+      // Command-specific results are included in the result object:
+      result = await runJson("jspm ls");
+      assert.strictEqual((result.result as any).imports[0].name, "lit");
+
+      // Warnings and errors should have stable codes:
+      result = await runJson("jspm uninstall");
+      assert.strictEqual(result.ok, true);
+      assert.strictEqual(result.warnings[0].code, "WARN_NOTHING_TO_UNINSTALL");
+
+      result = await runJson("jspm why not-installed");
+      assert.strictEqual(result.command, "why");
+      assert.strictEqual(result.ok, false);
+      assert.deepStrictEqual(result.errors, [
+        {
+          code: "ERR_NOT_INSTALLED",
+          message: 'Package "not-installed" is not in importmap.json.',
+        },
+      ]);
+      assert.strictEqual(result.exitCode, 1);
+    },
+  },
+];
+
+await runScenarios(scenarios);
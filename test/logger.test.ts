@@ -0,0 +1,72 @@
+import assert from "assert";
+import fs from "fs/promises";
+import { spyOn } from "tinyspy";
+import { cli } from "../src/cli";
+import { type LogEntry, configureLogger } from "../src/logger";
+import {
+  type Scenario,
+  mapNodeModulesFixture,
+  runScenarios,
+} from "./scenarios";
+
+const files = await mapNodeModulesFixture();
+
+const scenarios: Scenario[] = [
+  {
+    files,
+    commands: [],
+    validationFn: async () => {
+      const stderr: string[] = [];
+      const warn = spyOn(console, "warn", (msg) => stderr.push(msg));
+      try {
+        cli.parse(
+          [
+            "node",
+            "jspm",
+            "install",
+            "lit",
+            "-p",
+            "nodemodules",
+            "--verbose",
+            "--log-file",
+            "jspm.log",
+          ],
+          { run: false }
+        );
+        await cli.runMatchedCommand();
+      } finally {
+        warn.restore();
+        configureLogger({});
+      }
+
+      // Verbose runs should print the spans of each phase, and a summary:
+      assert(stderr.some((line) => /install took \d+ms/.test(line)));
+      const summary = stderr.slice(
+        stderr.findIndex((line) => line.includes("Timings:")) + 1
+      );
+      for (const name of ["install", "write", "total"])
+        assert(
+          summary.some((line) => new RegExp(`^  ${name} +\\d+ms$`).test(line))
+        );
+
+      // The log file has every entry as a JSON line, down to the trace level:
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      const entries: LogEntry[] = (await fs.readFile("jspm.log", "utf-8"))
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line));
+      assert(
+        entries.some(
+          (entry) =>
+            entry.type === "span" &&
+            entry.message.startsWith("write") &&
+            typeof entry.duration === "number"
+        )
+      );
+      assert(entries.some((entry) => entry.level === "trace"));
+      assert(entries.some((entry) => entry.level === "debug"));
+    },
+  },
+];
+
+await runScenarios(scenarios);
@@ -0,0 +1,54 @@
+import assert from "assert";
+import ls from "../src/ls";
+import {
+  type Scenario,
+  mapNodeModulesFixture,
+  runScenarios,
+} from "./scenarios";
+
+const files = await mapNodeModulesFixture();
+
+const scenarios: Scenario[] = [
+  // Listing the full tree should nest the dependencies of lit:
+  {
+    files,
+    commands: ["jspm install lit -p nodemodules"],
+    validationFn: async () => {
+      const tree = await ls([], { silent: true });
+      assert.strictEqual(tree.length, 1);
+
+      const [lit] = tree;
+      assert.strictEqual(lit.name, "lit");
+      assert.strictEqual(lit.version, "2.7.0");
+      assert.strictEqual(lit.provider, "nodemodules");
+
+      const deps = lit.dependencies.map((dep) => dep.name);
+      assert(deps.includes("lit-html"));
+      assert(deps.includes("lit-element"));
+      assert(deps.includes("@lit/reactive-element"));
+
+      // lit-element imports lit-html as well, which lit already lists:
+      const litElement = lit.dependencies.find((d) => d.name === "lit-element");
+      assert(litElement.dependencies.some((dep) => dep.name === "lit-html"));
+    },
+  },
+
+  // Depth limits and package filters:
+  {
+    files,
+    commands: ["jspm install lit -p nodemodules"],
+    validationFn: async () => {
+      const [lit] = await ls([], { silent: true, depth: 0 });
+      assert.strictEqual(lit.dependencies, undefined);
+
+      // Only the branches leading to lit-html should be kept:
+      const [filtered] = await ls(["lit-html"], { silent: true });
+      const deps = filtered.dependencies.map((dep) => dep.name);
+      assert.deepStrictEqual(deps.sort(), ["lit-element", "lit-html"]);
+
+      assert.deepStrictEqual(await ls(["react"], { silent: true }), []);
+    },
+  },
+];
+
+runScenarios(scenarios);
@@ -0,0 +1,50 @@
+import assert from "assert";
+import {
+  type Scenario,
+  mapNodeModulesFixture,
+  runScenarios,
+} from "./scenarios";
+
+const files = await mapNodeModulesFixture();
+
+const scenarios: Scenario[] = [
+  // Each environment set should be written to its own templated output:
+  {
+    files,
+    commands: [
+      "jspm install lit -p nodemodules --env-matrix development;production -o importmap.{env}.json",
+    ],
+    validationFn: async (files) => {
+      assert(!files.has("importmap.json"));
+      const dev = JSON.parse(files.get("importmap.development.json"));
+      const prod = JSON.parse(files.get("importmap.production.json"));
+
+      assert(dev.env.includes("development"));
+      assert(prod.env.includes("production"));
+      assert.strictEqual(dev.imports.lit, "./node_modules/lit/index.js");
+      assert.strictEqual(prod.imports.lit, "./node_modules/lit/index.js");
+
+      const devScope = dev.scopes["./node_modules/"];
+      const prodScope = prod.scopes["./node_modules/"];
+      assert(devScope["lit-html"].includes("/development/"));
+      assert(!prodScope["lit-html"].includes("/development/"));
+    },
+  },
+
+  // Without a template, the environment set is added to the output file name,
+  // and the sets combine with the --env flag:
+  {
+    files,
+    commands: [
+      "jspm install lit -p nodemodules -e production --env-matrix browser;deno,no-module",
+    ],
+    validationFn: async (files) => {
+      const browser = JSON.parse(files.get("importmap.browser.json"));
+      const deno = JSON.parse(files.get("importmap.deno-no-module.json"));
+      assert.deepStrictEqual(browser.env, ["browser", "module", "production"]);
+      assert.deepStrictEqual(deno.env, ["deno", "production"]);
+    },
+  },
+];
+
+runScenarios(scenarios);
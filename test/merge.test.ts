@@ -0,0 +1,145 @@
+import assert from "assert";
+import type { MergeResult } from "../src/merge";
+import {
+  type Scenario,
+  mapDirectory,
+  runJson,
+  runScenarios,
+} from "./scenarios";
+
+// Runs "jspm merge" with the given arguments, returning its result, errors and
+// the merged map:
+async function runMerge(args: string) {
+  const { exitCode, result, errors } = await runJson(`jspm merge ${args}`);
+  const map = (await mapDirectory(process.cwd())).get("importmap.json");
+  return {
+    exitCode,
+    errors,
+    result: result as MergeResult,
+    map: map && JSON.parse(map),
+  };
+}
+
+const env = ["browser", "development", "module"];
+const appMap = JSON.stringify({
+  env,
+  imports: {
+    app: "./main.js",
+    lit: "https://ga.jspm.io/npm:lit@2.7.0/index.js",
+    react: "https://ga.jspm.io/npm:react@17.0.2/index.js",
+  },
+});
+const checkoutMap = JSON.stringify({
+  env,
+  imports: {
+    checkout: "./main.js",
+    lit: "https://ga.jspm.io/npm:lit@2.8.0/index.js",
+    react: "https://ga.jspm.io/npm:react@18.2.0/index.js",
+  },
+});
+const cartHtml = `<!doctype html>
+<script type="importmap">
+{
+  "imports": {
+    "cart": "./main.js",
+    "react": "https://ga.jspm.io/npm:react@16.14.0/index.js"
+  }
+}
+</script>
+`;
+
+const scenarios: Scenario[] = [
+  // Incompatible versions fail by default, and compatible ones are merged:
+  {
+    files: new Map([
+      ["app/importmap.json", appMap],
+      ["checkout/importmap.json", checkoutMap],
+    ]),
+    commands: [],
+    validationFn: async () => {
+      const maps = "app/importmap.json checkout/importmap.json";
+      let { exitCode, errors, map } = await runMerge(maps);
+      assert.strictEqual(exitCode, 3);
+      assert.strictEqual(errors[0].code, "ERR_MERGE_CONFLICT");
+      assert(errors[0].message.includes('"react" (incompatible)'));
+      assert.strictEqual(map, undefined);
+
+      let result: MergeResult;
+      ({ result, map } = await runMerge(`${maps} --strategy prefer-first`));
+      assert.deepStrictEqual(map.env, env);
+      assert.deepStrictEqual(map.imports, {
+        app: "./app/main.js",
+        checkout: "./checkout/main.js",
+        lit: "https://ga.jspm.io/npm:lit@2.8.0/index.js",
+        react: "https://ga.jspm.io/npm:react@17.0.2/index.js",
+      });
+      assert.deepStrictEqual(
+        result.upgraded.map(({ specifier }) => specifier),
+        ["lit"]
+      );
+      assert.strictEqual(result.conflicts[0].kind, "incompatible-versions");
+
+      ({ map } = await runMerge(`${maps} --strategy prefer-latest`));
+      assert.strictEqual(
+        map.imports.react,
+        "https://ga.jspm.io/npm:react@18.2.0/index.js"
+      );
+
+      ({ errors } = await runMerge(`${maps} --strategy prefer-lates`));
+      assert.strictEqual(errors[0].hint, 'Did you mean "prefer-latest"?');
+    },
+  },
+
+  // Isolated mappings should only apply to the directories of their maps:
+  {
+    files: new Map([
+      ["app/importmap.json", appMap],
+      ["checkout/importmap.json", checkoutMap],
+      ["cart/index.html", cartHtml],
+    ]),
+    commands: [],
+    validationFn: async () => {
+      const { result, map } = await runMerge(
+        "app/importmap.json checkout/importmap.json cart/index.html --strategy scope-isolate"
+      );
+      assert.deepStrictEqual(result.conflicts[0].isolated, [
+        "checkout/importmap.json",
+        "cart/index.html",
+      ]);
+      assert.strictEqual(map.imports.cart, "./cart/main.js");
+      assert.deepStrictEqual(map.scopes, {
+        "./": { react: "https://ga.jspm.io/npm:react@17.0.2/index.js" },
+        "./cart/": { react: "https://ga.jspm.io/npm:react@16.14.0/index.js" },
+        "./checkout/": {
+          react: "https://ga.jspm.io/npm:react@18.2.0/index.js",
+        },
+      });
+    },
+  },
+
+  // Maps for different environments need the environment to be set:
+  {
+    files: new Map([
+      ["app/importmap.json", appMap],
+      [
+        "admin/importmap.json",
+        JSON.stringify({
+          env: ["browser", "module", "production"],
+          imports: { admin: "./main.js" },
+        }),
+      ],
+    ]),
+    commands: [],
+    validationFn: async () => {
+      const maps = "app/importmap.json admin/importmap.json";
+      const { errors } = await runMerge(maps);
+      assert.strictEqual(errors[0].code, "ERR_ENV_MISMATCH");
+
+      const { map } = await runMerge(`${maps} --env production`);
+      assert.deepStrictEqual(map.env, ["browser", "module", "production"]);
+      assert.strictEqual(map.imports.admin, "./admin/main.js");
+    },
+  },
+];
+
+await runScenarios(scenarios);
@@ -0,0 +1,110 @@
+import assert from "assert";
+import http from "node:http";
+import { type Scenario, runScenarios } from "./scenarios";
+
+// A local server stands in for a mirror of the jspm.io CDN, which serves the
+// packages and answers version lookups such as "npm:dep@1":
+const mirrorFiles = {
+  "/ga.jspm.io/npm:app": "1.0.0",
+  "/ga.jspm.io/npm:dep@1": "1.2.0",
+  "/ga.jspm.io/npm:app@1.0.0/package.json": JSON.stringify({
+    name: "app",
+    version: "1.0.0",
+    exports: { ".": "./index.js" },
+    dependencies: { dep: "^1.0.0" },
+  }),
+  "/ga.jspm.io/npm:app@1.0.0/index.js": `import dep from "dep"; export default dep;`,
+  "/ga.jspm.io/npm:dep@1.2.0/package.json": JSON.stringify({
+    name: "dep",
+    version: "1.2.0",
+    exports: { ".": "./index.js" },
+  }),
+  "/ga.jspm.io/npm:dep@1.2.0/index.js": `export default "1.2.0";`,
+  "/ga.jspm.io/npm:es-module-shims": "1.7.0",
+  "/ga.jspm.io/npm:es-module-shims@1.7.0/package.json": JSON.stringify({
+    name: "es-module-shims",
+    version: "1.7.0",
+    exports: { ".": "./dist/es-module-shims.js" },
+  }),
+  "/ga.jspm.io/npm:es-module-shims@1.7.0/dist/es-module-shims.js": "",
+};
+const server = http.createServer((req, res) => {
+  const source = mirrorFiles[decodeURIComponent(req.url)];
+  const type = req.url.endsWith(".json")
+    ? "application/json"
+    : req.url.endsWith(".js")
+    ? "text/javascript"
+    : "text/plain";
+  res.writeHead(source ? 200 : 404, { "Content-Type": type });
+  res.end(source);
+});
+await new Promise<void>((resolve) => server.listen(0, resolve));
+const { port } = server.address() as { port: number };
+const mirror = `http://localhost:${port}/ga.jspm.io/`;
+
+const scenarios: Scenario[] = [
+  // Packages should be resolved through the mirror, but the output map
+  // should point at the canonical CDN:
+  {
+    commands: [
+      `jspm install app --registry-mirror jspm.io=${mirror} --cache no-cache`,
+    ],
+    validationFn: async (files) => {
+      const map = JSON.parse(files.get("importmap.json"));
+      assert.strictEqual(
+        map.imports.app,
+        "https://ga.jspm.io/npm:app@1.0.0/index.js"
+      );
+      assert.strictEqual(
+        map.scopes["https://ga.jspm.io/"].dep,
+        "https://ga.jspm.io/npm:dep@1.2.0/index.js"
+      );
+    },
+  },
+
+  // Canonical input maps should be resolved through mirrors from config, and
+  // mirror URLs can be kept in the output map:
+  {
+    files: new Map([
+      [
+        "importmap.json",
+        JSON.stringify({
+          imports: { app: "https://ga.jspm.io/npm:app@1.0.0/index.js" },
+          scopes: {
+            "https://ga.jspm.io/": {
+              dep: "https://ga.jspm.io/npm:dep@1.2.0/index.js",
+            },
+          },
+        }),
+      ],
+      [
+        "jspm.config.json",
+        JSON.stringify({ registryMirror: { "jspm.io": mirror } }),
+      ],
+    ]),
+    commands: ["jspm install --mirror-urls --cache no-cache"],
+    validationFn: async (files) => {
+      const map = JSON.parse(files.get("importmap.json"));
+      assert.strictEqual(map.imports.app, `${mirror}npm:app@1.0.0/index.js`);
+      assert.strictEqual(
+        map.scopes[`http://localhost:${port}/`].dep,
+        `${mirror}npm:dep@1.2.0/index.js`
+      );
+    },
+  },
+
+  // Mirrors shouldn't leak into HTML output either:
+  {
+    commands: [
+      `jspm link app -o index.html --preload --registry-mirror jspm.io=${mirror} --cache no-cache`,
+    ],
+    validationFn: async (files) => {
+      const html = files.get("index.html");
+      assert(html.includes('"https://ga.jspm.io/": {'));
+      assert(html.includes("https://ga.jspm.io/npm:dep@1.2.0/index.js"));
+      assert(!html.includes(`localhost:${port}`));
+    },
+  },
+];
+
+await runScenarios(scenarios).finally(() => server.close());
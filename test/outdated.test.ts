@@ -0,0 +1,103 @@
+import assert from "assert";
+import fs from "fs/promises";
+import http from "node:http";
+import outdated from "../src/outdated";
+import {
+  type Scenario,
+  mapFile,
+  mapNodeModulesFixture,
+  runCommand,
+  runScenarios,
+} from "./scenarios";
+
+const nodeModules = await mapNodeModulesFixture();
+
+// A local server stands in for a CDN with old and new versions of lit, which
+// is configured as a custom provider. The dependencies of lit are current:
+const cdnFiles = {
+  "/pkg/lit@2.5.0/package.json": JSON.stringify({
+    name: "lit",
+    version: "2.5.0",
+  }),
+  "/versions/lit": JSON.stringify(["2.5.0", "2.6.0", "2.7.0"]),
+  "/versions/@lit/reactive-element": JSON.stringify(["1.5.0"]),
+  "/versions/lit-element": JSON.stringify(["3.2.2"]),
+  "/versions/lit-html": JSON.stringify(["2.6.1"]),
+};
+const server = http.createServer((req, res) => {
+  const source = cdnFiles[decodeURIComponent(req.url)];
+  res.writeHead(source ? 200 : 404, { "Content-Type": "application/json" });
+  res.end(source);
+});
+await new Promise<void>((resolve) => server.listen(0, resolve));
+const { port } = server.address() as { port: number };
+const cdn = `http://localhost:${port}`;
+
+// The fixture map of an old version of lit, served from the stand-in CDN:
+const outdatedMap = (await mapFile("test/fixtures/importmap.outdated.json"))
+  .get("importmap.outdated.json")
+  .replaceAll("https://ga.jspm.io/npm:", `${cdn}/pkg/`)
+  .replaceAll("https://ga.jspm.io/", `${cdn}/pkg/`);
+
+const scenarios: Scenario[] = [
+  // Packages from node_modules have nothing to compare against:
+  {
+    files: nodeModules,
+    commands: ["jspm install lit -p nodemodules"],
+    validationFn: async () => {
+      assert.deepStrictEqual(await outdated([], { silent: true }), []);
+      assert.notStrictEqual(process.exitCode, 1);
+    },
+  },
+
+  // An old version of lit, pinned by the package.json:
+  {
+    files: new Map([
+      ["importmap.json", outdatedMap],
+      ["package.json", JSON.stringify({ dependencies: { lit: "2.5.0" } })],
+      [
+        "jspm.config.json",
+        JSON.stringify({
+          customProviders: {
+            internal: {
+              packageUrl: `${cdn}/pkg/{name}@{version}/`,
+              versions: `${cdn}/versions/{name}`,
+            },
+          },
+        }),
+      ],
+    ]),
+    commands: [],
+    validationFn: async () => {
+      const { exitCode } = await runCommand(
+        "jspm outdated --cache no-cache --silent"
+      );
+      assert.strictEqual(exitCode, 1);
+
+      // Only lit is outdated, its dependencies are current:
+      const all = await outdated([], { silent: true, cache: "no-cache" });
+      assert.deepStrictEqual(
+        all.map((entry) => entry.name),
+        ["lit"]
+      );
+
+      const entries = await outdated(["lit"], {
+        silent: true,
+        cache: "no-cache",
+      });
+      assert.strictEqual(entries.length, 1);
+      assert.strictEqual(entries[0].current, "2.5.0");
+      assert.strictEqual(entries[0].wanted, "2.5.0");
+      assert.strictEqual(entries[0].latest, "2.7.0");
+      assert.strictEqual(entries[0].provider, "internal");
+      assert.deepStrictEqual(entries[0].ranges, ["2.5.0"]);
+      process.exitCode = 0;
+
+      // The map should never be written:
+      const map = await fs.readFile("importmap.json", "utf-8");
+      assert.strictEqual(map, outdatedMap);
+    },
+  },
+];
+
+await runScenarios(scenarios).finally(() => server.close());
@@ -0,0 +1,113 @@
+import assert from "assert";
+import { type Scenario, runScenarios } from "./scenarios";
+
+// Package "a" statically imports its own "./dep.js", which imports "c", and
+// dynamically imports "b":
+const files = new Map([
+  [
+    "package.json",
+    JSON.stringify({
+      dependencies: { a: "*", b: "*", c: "*", "es-module-shims": "*" },
+    }),
+  ],
+  ["node_modules/a/package.json", JSON.stringify({ name: "a" })],
+  [
+    "node_modules/a/index.js",
+    "import './dep.js'; export const load = () => import('b');",
+  ],
+  ["node_modules/a/dep.js", "import 'c';"],
+  ["node_modules/b/package.json", JSON.stringify({ name: "b" })],
+  ["node_modules/b/index.js", "export default 'b';"],
+  ["node_modules/c/package.json", JSON.stringify({ name: "c" })],
+  ["node_modules/c/index.js", "export default 'c';"],
+  [
+    "node_modules/es-module-shims/package.json",
+    JSON.stringify({ name: "es-module-shims", version: "1.0.0" }),
+  ],
+  ["node_modules/es-module-shims/dist/es-module-shims.js", ""],
+]);
+
+// The hrefs of the preloads in an HTML file:
+const preloads = (html: string) =>
+  [...html.matchAll(/<link rel="modulepreload" href="([^"]+)"/g)].map(
+    ([, href]) => href
+  );
+
+const scenarios: Scenario[] = [
+  // Strategies select the preloads of HTML output:
+  {
+    files,
+    commands: [
+      "jspm install a -p nodemodules -o depth.html --preload-strategy depth=1",
+      "jspm install a -p nodemodules -o all.html --preload-strategy all",
+      "jspm install a -p nodemodules -o entries.html --preload-strategy a,./node_modules/c/index.js",
+      "jspm install a -p nodemodules -o none.html --preload-strategy none",
+    ],
+    validationFn: async (files) => {
+      assert.deepStrictEqual(preloads(files.get("depth.html")), [
+        "./node_modules/a/dep.js",
+        "./node_modules/a/index.js",
+      ]);
+      assert.deepStrictEqual(preloads(files.get("all.html")), [
+        "./node_modules/a/dep.js",
+        "./node_modules/a/index.js",
+        "./node_modules/b/index.js",
+        "./node_modules/c/index.js",
+      ]);
+      assert.deepStrictEqual(preloads(files.get("entries.html")), [
+        "./node_modules/a/index.js",
+        "./node_modules/c/index.js",
+      ]);
+      assert.deepStrictEqual(preloads(files.get("none.html")), []);
+    },
+  },
+
+  // "--preload" is a switch, so the module after it is still linked:
+  {
+    files: new Map([...files, ["app.js", "import 'a';"]]),
+    commands: ["jspm link --preload ./app.js -p nodemodules -o index.html"],
+    validationFn: async (files) => {
+      assert.deepStrictEqual(preloads(files.get("index.html")), [
+        "./app.js",
+        "./node_modules/a/dep.js",
+        "./node_modules/a/index.js",
+        "./node_modules/c/index.js",
+      ]);
+    },
+  },
+
+  // Preloads can be written as headers and manifests for servers:
+  {
+    files: new Map([
+      ...files,
+      ["_headers", "/admin/*\n  X-Frame-Options: DENY\n"],
+    ]),
+    commands: [
+      "jspm install a -p nodemodules --preload-output _headers",
+      "jspm install a -p nodemodules --preload-output preloads.json --preload-strategy depth=0",
+      "jspm install a -p nodemodules --preload-output link.txt --preload-strategy a",
+    ],
+    validationFn: async (files) => {
+      assert.strictEqual(
+        files.get("_headers"),
+        `/admin/*
+  X-Frame-Options: DENY
+
+/*
+  Link: </node_modules/a/dep.js>; rel=modulepreload
+  Link: </node_modules/a/index.js>; rel=modulepreload
+  Link: </node_modules/c/index.js>; rel=modulepreload
+`
+      );
+      assert.deepStrictEqual(JSON.parse(files.get("preloads.json")), {
+        preloads: [{ href: "/node_modules/a/index.js" }],
+      });
+      assert.strictEqual(
+        files.get("link.txt"),
+        "Link: </node_modules/a/index.js>; rel=modulepreload\n"
+      );
+    },
+  },
+];
+
+await runScenarios(scenarios);
@@ -0,0 +1,101 @@
+import assert from "assert";
+import { type Scenario, runScenarios } from "./scenarios";
+
+const packages = new Map(
+  ["a@1.0.0", "b@1.2.0", "c@2.3.4"].flatMap((pkg) => {
+    const [name, version] = pkg.split("@");
+    return [
+      [`node_modules/${name}/package.json`, JSON.stringify({ name, version })],
+      [`node_modules/${name}/index.js`, `export default "${name}";`],
+    ];
+  })
+);
+
+// A package.json with its own indentation and field order:
+const pjson = `{
+    "name": "app",
+    "dependencies": {
+        "b": "^1.0.0"
+    },
+    "scripts": {
+        "start": "node main.js"
+    }
+}
+`;
+
+const scenarios: Scenario[] = [
+  // Saved packages keep the formatting and field order of package.json:
+  {
+    files: new Map([...packages, ["package.json", pjson]]),
+    commands: [
+      "jspm install a -p nodemodules --save",
+      "jspm install c -p nodemodules --save-dev --save-exact",
+    ],
+    validationFn: async (files) => {
+      assert.strictEqual(
+        files.get("package.json"),
+        `{
+    "name": "app",
+    "dependencies": {
+        "a": "^1.0.0",
+        "b": "^1.0.0"
+    },
+    "scripts": {
+        "start": "node main.js"
+    },
+    "devDependencies": {
+        "c": "2.3.4"
+    }
+}
+`
+      );
+    },
+  },
+
+  // Aliases are saved as npm aliases, and packages move between fields:
+  {
+    files: new Map([
+      ...packages,
+      [
+        "package.json",
+        JSON.stringify({ devDependencies: { a: "^1.0.0" } }, null, 2),
+      ],
+    ]),
+    commands: ["jspm install a alias=b -p nodemodules --save"],
+    validationFn: async (files) => {
+      assert.deepStrictEqual(JSON.parse(files.get("package.json")), {
+        devDependencies: {},
+        dependencies: { a: "^1.0.0", alias: "npm:b@^1.2.0" },
+      });
+    },
+  },
+
+  // Uninstalled packages are removed, unless they're still imported:
+  {
+    files: new Map([
+      ...packages,
+      [
+        "package.json",
+        JSON.stringify({ dependencies: { a: "^1.0.0", b: "^1.0.0" } }),
+      ],
+      [
+        "importmap.json",
+        JSON.stringify({
+          imports: {
+            a: "./node_modules/a/index.js",
+            b: "./node_modules/b/index.js",
+            "b/index.js": "./node_modules/b/index.js",
+          },
+        }),
+      ],
+    ]),
+    commands: ["jspm uninstall a b/index.js -p nodemodules --save"],
+    validationFn: async (files) => {
+      assert.deepStrictEqual(JSON.parse(files.get("package.json")), {
+        dependencies: { b: "^1.0.0" },
+      });
+    },
+  },
+];
+
+await runScenarios(scenarios);
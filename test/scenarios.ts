@@ -1,7 +1,10 @@
+import assert from "assert";
 import fs from "fs/promises";
 import path from "path";
 import os from "os";
+import { spyOn } from "tinyspy";
 import { cli } from "../src/cli";
+import type { JsonResult } from "../src/report";
 
 const defaultPackageJson = {
   name: "test",
@@ -51,6 +54,38 @@ export async function runScenario(scenario: Scenario) {
   }
 }
 
+/**
+ * Runs a CLI command, returning the lines it printed and its exit code. The
+ * exit code is reset afterwards, so that it doesn't fail the test process.
+ */
+export async function runCommand(cmd: `jspm ${string}`) {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const log = spyOn(console, "log", (msg) => stdout.push(msg));
+  const warn = spyOn(console, "warn", (msg) => stderr.push(msg));
+  try {
+    cli.parse(["node", ...cmd.split(" ").filter(Boolean)], { run: false });
+    await cli.runMatchedCommand();
+  } finally {
+    log.restore();
+    warn.restore();
+  }
+  const exitCode = process.exitCode ?? 0;
+  process.exitCode = 0;
+  return { exitCode, stdout, stderr };
+}
+
+// Runs a CLI command in JSON mode, checking that the result object is the only
+// thing it outputs:
+export async function runJson(
+  cmd: `jspm ${string}`
+): Promise<JsonResult & { exitCode: number }> {
+  const { exitCode, stdout, stderr } = await runCommand(`${cmd} --json`);
+  assert.deepStrictEqual(stderr, []);
+  assert.strictEqual(stdout.length, 1);
+  return { exitCode, ...JSON.parse(stdout[0]) };
+}
+
 export async function mapDirectory(dir: string): Promise<Files> {
   const files = new Map<string, string>();
   for (const file of await fs.readdir(dir)) {
@@ -68,6 +103,17 @@ export async function mapDirectory(dir: string): Promise<Files> {
   return files;
 }
 
+/**
+ * Maps the files of a project with "lit" and its dependencies in node_modules,
+ * without an import map. The "nodemodules" provider can install, trace and
+ * link it without network access.
+ */
+export async function mapNodeModulesFixture(): Promise<Files> {
+  const files = await mapDirectory("test/fixtures/scenario_provider_swap");
+  files.delete("importmap.json");
+  return files;
+}
+
 export async function mapFile(files: string | string[]): Promise<Files> {
   if (typeof files === "string") return mapFile([files]);
 
@@ -0,0 +1,92 @@
+import assert from "assert";
+import fs from "fs/promises";
+import serve, { liveReloadPath } from "../src/serve";
+import {
+  type Scenario,
+  mapNodeModulesFixture,
+  runScenarios,
+} from "./scenarios";
+
+const files = await mapNodeModulesFixture();
+files.set(
+  "index.html",
+  `<!DOCTYPE html>
+<html>
+  <head>
+    <script type="module" src="./app.js"></script>
+  </head>
+  <body></body>
+</html>`
+);
+files.set("app.js", `import "lit";`);
+
+function getImportMap(html: string) {
+  return JSON.parse(html.match(/<script type="importmap">(.*?)<\/script>/s)[1]);
+}
+
+const scenarios: Scenario[] = [
+  // Pages should be served with an up-to-date import map:
+  {
+    files,
+    commands: [],
+    validationFn: async () => {
+      const server = await serve({
+        silent: true,
+        port: 0,
+        provider: "nodemodules",
+      });
+
+      try {
+        const html = await (await fetch(server.url)).text();
+        assert.deepStrictEqual(Object.keys(getImportMap(html).imports), [
+          "lit",
+        ]);
+        assert(html.includes(liveReloadPath));
+
+        const res = await fetch(
+          new URL("node_modules/lit/index.js", server.url)
+        );
+        assert.strictEqual(res.status, 200);
+        assert(res.headers.get("content-type").startsWith("text/javascript"));
+
+        // Changing a local module should relink the page:
+        await fs.writeFile("app.js", `import "lit"; import "lit-html";`);
+        await new Promise((resolve) => setTimeout(resolve, 500));
+        const relinked = await (await fetch(server.url)).text();
+        assert.deepStrictEqual(Object.keys(getImportMap(relinked).imports), [
+          "lit",
+          "lit-html",
+        ]);
+
+        const missing = await fetch(new URL("missing.js", server.url));
+        assert.strictEqual(missing.status, 404);
+      } finally {
+        await server.close();
+      }
+    },
+  },
+
+  // Live reloading can be turned off:
+  {
+    files,
+    commands: [],
+    validationFn: async () => {
+      const server = await serve({
+        silent: true,
+        port: 0,
+        provider: "nodemodules",
+        liveReload: false,
+      });
+
+      try {
+        const html = await (await fetch(server.url)).text();
+        assert(getImportMap(html).imports.lit);
+        assert(!html.includes(liveReloadPath));
+      } finally {
+        await server.close();
+      }
+    },
+  },
+];
+
+runScenarios(scenarios);
@@ -0,0 +1,100 @@
+import assert from "assert";
+import { parseJsonc } from "../src/jsonc";
+import { type Scenario, runScenarios } from "./scenarios";
+
+// Packages with types in their exports, in their "types" field, next to their
+// modules, and without any types:
+const files = new Map([
+  [
+    "package.json",
+    JSON.stringify({
+      dependencies: { a: "^1.0.0", b: "^1.0.0", c: "^1.0.0", d: "^1.0.0" },
+    }),
+  ],
+  [
+    "node_modules/a/package.json",
+    JSON.stringify({
+      name: "a",
+      version: "1.0.0",
+      exports: {
+        ".": { types: "./types/index.d.ts", default: "./index.js" },
+        "./sub": { import: { types: "./types/sub.d.ts", default: "./sub.js" } },
+      },
+    }),
+  ],
+  ["node_modules/a/index.js", "export default 'a';"],
+  ["node_modules/a/sub.js", "export const sub = 'sub';"],
+  ["node_modules/a/types/index.d.ts", "export default string;"],
+  ["node_modules/a/types/sub.d.ts", "export declare const sub: string;"],
+  [
+    "node_modules/b/package.json",
+    JSON.stringify({ name: "b", version: "1.0.0", types: "./b.d.ts" }),
+  ],
+  ["node_modules/b/index.js", "export const b = 'b';"],
+  ["node_modules/b/b.d.ts", "export declare const b: string;"],
+  [
+    "node_modules/c/package.json",
+    JSON.stringify({ name: "c", version: "1.0.0", exports: "./c.js" }),
+  ],
+  ["node_modules/c/c.js", "export const c = 'c';"],
+  ["node_modules/c/c.d.ts", "export declare const c: string;"],
+  [
+    "node_modules/d/package.json",
+    JSON.stringify({ name: "d", version: "1.0.0" }),
+  ],
+  ["node_modules/d/index.js", "export const d = 'd';"],
+]);
+
+const scenarios: Scenario[] = [
+  // Paths are merged into existing tsconfig files, keeping their comments:
+  {
+    files: new Map([
+      ...files,
+      [
+        "tsconfig.json",
+        `{
+  // Strict checks for the project:
+  "compilerOptions": { "strict": true }
+}
+`,
+      ],
+    ]),
+    commands: [
+      "jspm install a a/sub b c d -p nodemodules --types tsconfig.json",
+    ],
+    validationFn: async (files) => {
+      const source = files.get("tsconfig.json");
+      assert(source.includes("// Strict checks for the project:"));
+      assert.deepStrictEqual(parseJsonc(source).compilerOptions, {
+        strict: true,
+        paths: {
+          a: ["./node_modules/a/types/index.d.ts"],
+          "a/sub": ["./node_modules/a/types/sub.d.ts"],
+          b: ["./node_modules/b/b.d.ts"],
+          c: ["./node_modules/c/c.d.ts"],
+        },
+      });
+    },
+  },
+
+  // Declarations re-export the packages of aliases, and declare untyped
+  // modules:
+  {
+    files,
+    commands: [
+      "jspm install alias=a d -p nodemodules --types types/importmap.d.ts",
+    ],
+    validationFn: async (files) => {
+      const declarations = files.get("types/importmap.d.ts");
+      assert(
+        declarations.includes(`declare module "alias" {
+  export * from "a";
+  export { default } from "a";
+}`)
+      );
+      assert(declarations.includes(`declare module "d";`));
+    },
+  },
+];
+
+await runScenarios(scenarios);
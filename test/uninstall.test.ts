@@ -1,5 +1,11 @@
 import assert from "assert";
 import uninstall from "../src/uninstall";
+import {
+  type Scenario,
+  mapDirectory,
+  runJson,
+  runScenarios,
+} from "./scenarios";
 
 {
   /* basic uninstall */
@@ -10,3 +16,90 @@ import uninstall from "../src/uninstall";
   });
   assert.ok(typeof map.imports?.react);
 }
+
+// Package "a" depends on "c", so its scope is orphaned when it's uninstalled:
+const files = new Map([
+  ["package.json", JSON.stringify({ dependencies: { a: "*", b: "*" } })],
+  [
+    "node_modules/a/package.json",
+    JSON.stringify({ name: "a", version: "1.0.0", dependencies: { c: "*" } }),
+  ],
+  ["node_modules/a/index.js", "import c from 'c'; export default c;"],
+  [
+    "node_modules/b/package.json",
+    JSON.stringify({ name: "b", version: "1.0.0" }),
+  ],
+  ["node_modules/b/index.js", "export default 'b';"],
+  [
+    "node_modules/c/package.json",
+    JSON.stringify({ name: "c", version: "1.0.0" }),
+  ],
+  ["node_modules/c/index.js", "export default 'c';"],
+  [
+    "importmap.json",
+    JSON.stringify({
+      imports: {
+        a: "./node_modules/a/index.js",
+        b: "./node_modules/b/index.js",
+      },
+      scopes: {
+        "./node_modules/a/": { c: "./node_modules/c/index.js" },
+      },
+    }),
+  ],
+]);
+
+const scenarios: Scenario[] = [
+  // Unknown packages fail with suggestions, without changing the map:
+  {
+    files,
+    commands: [],
+    validationFn: async () => {
+      const { exitCode, errors } = await runJson(
+        "jspm uninstall a bb -p nodemodules"
+      );
+      assert.strictEqual(exitCode, 1);
+      assert.strictEqual(errors[0].code, "ERR_NOT_INSTALLED");
+      assert(errors[0].message.includes('"bb"'));
+      assert.strictEqual(errors[0].hint, 'Did you mean "b"?');
+
+      const map = (await mapDirectory(process.cwd())).get("importmap.json");
+      assert(JSON.parse(map).imports.a);
+    },
+  },
+
+  // Uninstalled packages are reported along with their pruned scopes:
+  {
+    files,
+    commands: [],
+    validationFn: async () => {
+      // Dry runs report what would be removed, without changing the map:
+      const dryRun = await runJson(
+        "jspm uninstall npm:a@1.0.0 -p nodemodules --dry-run"
+      );
+      assert(dryRun.messages.some((msg) => msg.startsWith("Would remove a")));
+      assert(dryRun.messages.some((msg) => msg.startsWith("Would prune 1")));
+      assert.strictEqual(
+        (await mapDirectory(process.cwd())).get("importmap.json"),
+        files.get("importmap.json")
+      );
+
+      const { result, messages } = await runJson(
+        "jspm uninstall npm:a@1.0.0 -p nodemodules"
+      );
+      assert.deepStrictEqual(result, {
+        imports: ["a"],
+        scopes: ["./node_modules/a/"],
+      });
+      assert(messages.some((msg) => msg.startsWith("Pruned 1 scope")));
+
+      const map = (await mapDirectory(process.cwd())).get("importmap.json");
+      assert.deepStrictEqual(JSON.parse(map), {
+        imports: { b: "./node_modules/b/index.js" },
+        env: ["browser", "development", "module"],
+      });
+    },
+  },
+];
+
+await runScenarios(scenarios);
@@ -0,0 +1,73 @@
+import assert from "assert";
+import fs from "fs/promises";
+import link, { stopWatching } from "../src/link";
+import {
+  type Scenario,
+  mapNodeModulesFixture,
+  runScenarios,
+} from "./scenarios";
+
+const files = await mapNodeModulesFixture();
+files.set("app.js", `import "./dep.js";`);
+files.set("dep.js", `export default "dep";`);
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Waits for the relink of a change, which is debounced by the watcher:
+async function waitFor(condition: () => Promise<boolean>) {
+  for (let i = 0; i < 50 && !(await condition()); i++) await wait(100);
+}
+
+const readMap = async () =>
+  JSON.parse(await fs.readFile("importmap.json", "utf-8"));
+
+const scenarios: Scenario[] = [
+  // Changing a linked local module should relink the map:
+  {
+    files,
+    commands: [],
+    validationFn: async () => {
+      await link(["./app.js"], {
+        silent: true,
+        watch: true,
+        provider: "nodemodules",
+      });
+
+      try {
+        assert.strictEqual((await readMap()).imports?.lit, undefined);
+        await fs.writeFile("dep.js", `import "lit"; export default "dep";`);
+        await waitFor(async () => !!(await readMap()).imports?.lit);
+        assert.strictEqual(
+          (await readMap()).imports.lit,
+          "./node_modules/lit/index.js"
+        );
+      } finally {
+        stopWatching();
+      }
+    },
+  },
+
+  // Changes that don't affect the map shouldn't rewrite it:
+  {
+    files,
+    commands: [],
+    validationFn: async () => {
+      await link(["./app.js"], {
+        silent: true,
+        watch: true,
+        provider: "nodemodules",
+      });
+
+      try {
+        const { mtimeMs } = await fs.stat("importmap.json");
+        await fs.writeFile("dep.js", `export default "changed";`);
+        await wait(1000);
+        assert.strictEqual((await fs.stat("importmap.json")).mtimeMs, mtimeMs);
+      } finally {
+        stopWatching();
+      }
+    },
+  },
+];
+
+await runScenarios(scenarios);
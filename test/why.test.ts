@@ -0,0 +1,41 @@
+import assert from "assert";
+import why from "../src/why";
+import {
+  type Scenario,
+  mapNodeModulesFixture,
+  runScenarios,
+} from "./scenarios";
+
+const files = await mapNodeModulesFixture();
+
+const scenarios: Scenario[] = [
+  {
+    files,
+    commands: ["jspm install lit -p nodemodules"],
+    validationFn: async () => {
+      const [result] = await why("lit-html", { silent: true });
+      assert.strictEqual(result.name, "lit-html");
+      assert.strictEqual(result.version, "2.7.0");
+
+      // lit-html is imported both by lit and by lit-element:
+      const chains = result.chains.map((chain) =>
+        chain.map((step) => step.name).join(" > ")
+      );
+      assert.deepStrictEqual(chains.sort(), [
+        "lit > lit-element > lit-html",
+        "lit > lit-html",
+      ]);
+
+      // Each step should record the range its parent depends on, with the
+      // top-level range coming from the local package.json:
+      const [lit, litElement] = result.chains.find((c) => c.length === 3);
+      assert.strictEqual(lit.range, "^2.7.0");
+      assert.strictEqual(litElement.range, "^3.3.0");
+
+      // Exact versions that aren't in the map shouldn't match:
+      await assert.rejects(why("lit-html@1.0.0", { silent: true }));
+    },
+  },
+];
+
+runScenarios(scenarios);